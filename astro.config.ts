@@ -2,6 +2,7 @@ import { defineConfig } from 'astro/config';
 import tailwindcss from '@tailwindcss/vite';
 import mdx from '@astrojs/mdx';
 import remarkCallout from '@r4ai/remark-callout';
+import { remarkWikilinks } from './src/lib/wikilinks';
 
 export default defineConfig({
   site: 'https://home.theor.net',
@@ -18,14 +19,17 @@ export default defineConfig({
 
   integrations: [
     mdx({
-      remarkPlugins: [remarkCallout],
+      remarkPlugins: [remarkCallout, remarkWikilinks],
     }),
   ],
 
   markdown: {
-    remarkPlugins: [remarkCallout],
+    remarkPlugins: [remarkCallout, remarkWikilinks],
     shikiConfig: {
-      theme: 'github-light',
+      themes: {
+        light: 'github-light',
+        dark: 'github-dark',
+      },
     },
   },
 });
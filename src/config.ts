@@ -0,0 +1,79 @@
+import type { DiagnosticLevel } from '@/lib/diagnostics';
+import type { EdgeType } from '@/lib/graph-data';
+import type { PageKind } from '@/content.config';
+
+/**
+ * Build-time site configuration.
+ */
+export const config = {
+  site: {
+    name: 'TheoR.net',
+    author: 'Theo Ryzhenkov',
+  },
+  relations: {
+    /** Derive implied relations (e.g. transitive NTPP chains) via RCC-8 composition. */
+    inference: true,
+    /** Connect pages sharing a tag with `tag` edges, so they cluster on /graph. */
+    tagEdges: true,
+  },
+  kinds: {
+    /** Kind of the pages that are part of (NTPP/TPP) each hub, unless they set one (see content.config.ts). */
+    hubs: {
+      blog: 'post',
+      projects: 'project',
+    } as Record<string, PageKind>,
+  },
+  analytics: {
+    /**
+     * Weight of each relation type in the graph metrics (see lib/graph-analytics.ts).
+     * 0 leaves a type out: DC says two pages are unrelated, so it connects nothing.
+     */
+    weights: {
+      ntpp: 1,
+      tpp: 1,
+      po: 0.5,
+      ec: 0.5,
+      eq: 1,
+      dc: 0,
+      next: 0.5,
+      r: 0.25,
+      tag: 0.25,
+    } as Record<EdgeType, number>,
+    /** Factor applied to the weights of inferred relations; 0 counts declared ones only. */
+    inferredFactor: 0,
+  },
+  feeds: {
+    /** Pages whose NTPP/TPP children also get their own feeds, e.g. /blog/rss.xml. */
+    sections: ['blog', 'projects'],
+    /** Maximum number of items per feed. */
+    limit: 50,
+  },
+  exports: {
+    /** Obsidian Canvas export (see lib/graph-export.ts): where cards find each page's note. */
+    canvas: {
+      /** Vault folder the notes are in, e.g. `Site/pages`; empty for the vault root. */
+      folder: '',
+      /** Extension of the notes. Obsidian doesn't open `.mdx`, so pages need Markdown copies. */
+      extension: 'md',
+    },
+  },
+  popups: {
+    /**
+     * Fetch external link targets at build time for their title and description.
+     * Off by default: every build fetches every linked URL.
+     */
+    externalMetadata: false,
+    /** Per-request timeout for those fetches, in ms. */
+    externalTimeout: 5000,
+    /** Maximum number of those fetches in flight at once. */
+    externalConcurrency: 4,
+  },
+  validation: {
+    /** Unresolved relation targets and broken internal links. */
+    references: 'warn' as DiagnosticLevel,
+    /** Contradictory RCC-8 relations, containment cycles and next/prev disagreements. */
+    consistency: 'warn' as DiagnosticLevel,
+    /** JSON-LD that doesn't match the expected schema.org shape (see lib/structured-data.ts). */
+    structuredData: 'warn' as DiagnosticLevel,
+  },
+};
@@ -1,24 +1,97 @@
 import { defineCollection, z } from 'astro:content';
 import { glob } from 'astro/loaders';
+import { config } from '@/config';
+
+/*
+ * Every page has a kind, which decides the frontmatter it may have:
+ * - project: a piece of work with a status and usually a repository
+ * - post:    a dated blog post
+ * - note:    any other page
+ * - hub:     a page collecting others, e.g. /blog or /projects
+ *
+ * Pages without an explicit `kind` take the kind of the hub they are part of
+ * (see `config.kinds.hubs`), and are notes otherwise. Fields of other kinds
+ * are rejected, so e.g. a `status` on a note is reported rather than ignored.
+ */
+
+export const PAGE_KINDS = ['project', 'post', 'note', 'hub'] as const;
+export type PageKind = typeof PAGE_KINDS[number];
+
+export const PROJECT_STATUSES = ['planned', 'active', 'paused', 'completed', 'archived'] as const;
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
+const base = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  created: z.coerce.date(),
+  modified: z.coerce.date().optional(),
+  tags: z.array(z.string()).optional(),
+  // Publication state (see lib/visibility.ts)
+  draft: z.boolean().optional(),          // built only in dev
+  unlisted: z.boolean().optional(),       // built, but not listed or indexed
+  publishAt: z.coerce.date().optional(),  // built only once this date has passed
+  // Indexing
+  sitemap: z.boolean().optional(),        // false: leave out of /sitemap.xml
+  // Topological relations (RCC-8)
+  ntpp: z.array(z.string()).optional(),   // Non-tangential proper part
+  tpp: z.array(z.string()).optional(),    // Tangential proper part
+  po: z.array(z.string()).optional(),     // Partially overlapped
+  ec: z.array(z.string()).optional(),     // Externally connected
+  eq: z.array(z.string()).optional(),     // Equal
+  dc: z.array(z.string()).optional(),     // Disconnected (metadata-only)
+  // Semantic relations
+  next: z.string().optional(),
+  prev: z.string().optional(),
+});
+
+function pageKind<K extends PageKind, S extends z.ZodRawShape>(kind: K, shape: S) {
+  return base.extend({ kind: z.literal(kind), ...shape });
+}
+
+const KINDS = {
+  project: pageKind('project', {
+    status: z.enum(PROJECT_STATUSES),
+    url: z.string().url().optional(),   // repository or homepage
+  }),
+  post: pageKind('post', {}),
+  note: pageKind('note', {}),
+  hub: pageKind('hub', {}),
+};
+
+/**
+ * Set the kind of a page that doesn't set one: that of the first hub it is
+ * part of, else note. Then report fields that the kind doesn't have, naming
+ * where the kind came from.
+ */
+function resolveKind(data: unknown, ctx: z.RefinementCtx): unknown {
+  if (typeof data !== 'object' || data === null) return data;
+
+  let page = data as Record<string, unknown>;
+  let origin = '';
+  if (!('kind' in page)) {
+    const parents = [page.ntpp, page.tpp].flatMap(targets => (Array.isArray(targets) ? targets : []));
+    const hub = parents.find((slug): slug is string => typeof slug === 'string' && slug in config.kinds.hubs);
+    page = { ...page, kind: hub ? config.kinds.hubs[hub] : 'note' };
+    origin = hub ? ` (inferred from hub "${hub}"; set \`kind\` to override)` : ' (the default; set `kind` to override)';
+  }
+
+  // An unknown kind is reported by the union
+  const schema = KINDS[page.kind as PageKind] as z.AnyZodObject | undefined;
+  for (const key of Object.keys(page)) {
+    if (schema && !(key in schema.shape)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: `Not a field of ${String(page.kind)} pages${origin}`,
+      });
+    }
+  }
+  return page;
+}
 
 const pages = defineCollection({
   loader: glob({ pattern: '**/*.mdx', base: './src/content/pages' }),
-  schema: z.object({
-    title: z.string(),
-    description: z.string().optional(),
-    created: z.coerce.date(),
-    modified: z.coerce.date().optional(),
-    // Topological relations (RCC-8)
-    ntpp: z.array(z.string()).optional(),   // Non-tangential proper part
-    tpp: z.array(z.string()).optional(),    // Tangential proper part
-    po: z.array(z.string()).optional(),     // Partially overlapped
-    ec: z.array(z.string()).optional(),     // Externally connected
-    eq: z.array(z.string()).optional(),     // Equal
-    dc: z.array(z.string()).optional(),     // Disconnected (metadata-only)
-    // Semantic relations
-    next: z.string().optional(),
-    prev: z.string().optional(),
-  }).passthrough(),
+  schema: z.preprocess(resolveKind, z.discriminatedUnion('kind', [KINDS.project, KINDS.post, KINDS.note, KINDS.hub])),
 });
 
 export const collections = { pages };
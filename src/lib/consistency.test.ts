@@ -0,0 +1,106 @@
+import { describe, expect, mock, test } from 'bun:test';
+import type { CollectionEntry } from 'astro:content';
+
+// Only page bodies and frontmatter are read; nothing is rendered or collected
+mock.module('astro:content', () => ({ getCollection: async () => [], render: async () => ({ headings: [] }) }));
+const { checkConsistency } = await import('./consistency');
+
+type Relations = Partial<Record<'ntpp' | 'tpp' | 'po' | 'ec' | 'eq' | 'dc', string[]> & Record<'next' | 'prev', string>>;
+
+function page(id: string, relations: Relations = {}, body = ''): CollectionEntry<'pages'> {
+  return {
+    id,
+    collection: 'pages',
+    body,
+    data: { title: id, created: new Date('2026-01-18'), ...relations },
+  } as unknown as CollectionEntry<'pages'>;
+}
+
+function check(...entries: CollectionEntry<'pages'>[]) {
+  return checkConsistency(entries, new Set(entries.map(e => e.id)));
+}
+
+describe('checkConsistency', () => {
+  test('accepts a consistent hierarchy', () => {
+    expect(check(
+      page('blog'),
+      page('blog/first', { ntpp: ['blog'], next: 'blog/second' }),
+      page('blog/second', { ntpp: ['blog'], prev: 'blog/first', ec: ['blog/first'] }),
+      page('me', { dc: ['blog'] }),
+    )).toEqual([]);
+  });
+
+  test('reports a page that is both NTPP of and DC from another', () => {
+    const diagnostics = check(page('a', { ntpp: ['b'], dc: ['b'] }), page('b'));
+
+    expect(diagnostics).toEqual([{
+      code: 'rcc8-contradiction',
+      message: 'No RCC-8 relation between "a" and "b" satisfies: "a" ntpp: "b"; "a" dc: "b"',
+      file: undefined,
+      line: undefined,
+    }]);
+  });
+
+  test('reports a page that is both EQ to and TPP of another, declared on either side', () => {
+    const diagnostics = check(page('a', { eq: ['b'] }), page('b', { tpp: ['a'] }));
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      'No RCC-8 relation between "a" and "b" satisfies: "a" eq: "b"; "b" tpp: "a"',
+    ]);
+  });
+
+  test('reports contradictions implied by composition, including inline relations', () => {
+    const diagnostics = check(
+      page('a', { ntpp: ['b'] }),
+      page('b', {}, 'Part of ntpp::[[c]].'),
+      page('c', { dc: ['a'] }),
+    );
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].code).toBe('rcc8-contradiction');
+    expect(diagnostics[0].message).toStartWith('No RCC-8 relation between "a" and "c" satisfies:');
+    expect(diagnostics[0].message).toContain('"b" ntpp: "c"');
+  });
+
+  test('reports a page related to itself by anything but EQ', () => {
+    expect(check(page('a', { po: ['a'], eq: ['a'] })).map(d => d.message)).toEqual([
+      '"a" declares po with itself; a page can only be EQ to itself',
+    ]);
+  });
+
+  test('reports a containment cycle once', () => {
+    const diagnostics = check(
+      page('a', { ntpp: ['b'] }),
+      page('b', { tpp: ['c'] }),
+      page('c', { ntpp: ['a'] }),
+    ).filter(d => d.code === 'containment-cycle');
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      'Proper-part cycle "a" → "b" → "c" → "a": "a" ntpp: "b"; "b" tpp: "c"; "c" ntpp: "a"',
+    ]);
+  });
+
+  test('reports next and prev declarations that disagree', () => {
+    const diagnostics = check(
+      page('a', { next: 'b' }),
+      page('b', { prev: 'c' }),
+      page('c'),
+    );
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      '"a" next: "b", but "b" declares prev: "c"',
+    ]);
+  });
+
+  test('reports a page declared next of several pages', () => {
+    const diagnostics = check(page('a', { next: 'c' }), page('b', { next: 'c' }), page('c'));
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      '"c" is declared next of several pages: "a" next: "c"; "b" next: "c"',
+    ]);
+  });
+
+  test('leaves relations to unknown pages to reference validation', () => {
+    expect(check(page('a', { ntpp: ['missing'], dc: ['missing'] }))).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+import type { CollectionEntry } from 'astro:content';
+import type { Diagnostic } from './diagnostics';
+import { closure, relationMask, type BaseRelation } from './rcc8';
+import { relationDeclarations, type RelationField } from './validation';
+
+/** Frontmatter keys holding RCC-8 relations, with the base relation each declares. */
+const RCC8_FIELDS: [RelationField, BaseRelation][] = [
+  ['ntpp', 'ntpp'], ['tpp', 'tpp'], ['po', 'po'], ['ec', 'ec'], ['eq', 'eq'], ['dc', 'dc'],
+];
+
+/** A single relation as written in a page's frontmatter or body. */
+interface Declaration {
+  source: string;
+  field: RelationField;
+  target: string;
+  file?: string;
+  line?: number;
+}
+
+type SequenceData = { next?: string; prev?: string };
+
+function describe(d: Declaration): string {
+  const location = d.file ? ` (${d.file}${d.line ? `:${d.line}` : ''})` : '';
+  return `"${d.source}" ${d.field}: "${d.target}"${location}`;
+}
+
+function declarationsOf(entry: CollectionEntry<'pages'>, knownSlugs: Set<string>): Declaration[] {
+  return relationDeclarations(entry)
+    // Unknown targets are reported by validateReferences
+    .filter(d => knownSlugs.has(d.target))
+    .map(({ field, target, line }) => ({ source: entry.id, field, target, file: entry.filePath, line }));
+}
+
+/* ── RCC-8 path consistency ───────────────────────────────────────── */
+
+/**
+ * Run algebraic closure over the declared RCC-8 network and report every pair
+ * of pages whose constraints become empty, with the declarations responsible.
+ */
+function checkComposition(declarations: Declaration[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const facts: { a: string; b: string; mask: number; fact: Declaration }[] = [];
+
+  for (const d of declarations) {
+    const rel = RCC8_FIELDS.find(([field]) => field === d.field)?.[1];
+    if (!rel) continue;
+
+    if (d.source === d.target) {
+      if (rel !== 'eq') {
+        diagnostics.push({
+          code: 'rcc8-contradiction',
+          message: `"${d.source}" declares ${d.field} with itself; a page can only be EQ to itself`,
+          file: d.file,
+          line: d.line,
+        });
+      }
+      continue;
+    }
+
+    facts.push({ a: d.source, b: d.target, mask: relationMask(rel), fact: d });
+  }
+
+  for (const { a, b, because } of closure(facts).conflicts) {
+    const first = because[0];
+    diagnostics.push({
+      code: 'rcc8-contradiction',
+      message: `No RCC-8 relation between "${a}" and "${b}" satisfies: ${because.map(describe).join('; ')}`,
+      file: first?.file,
+      line: first?.line,
+    });
+  }
+
+  return diagnostics;
+}
+
+/* ── Containment cycles ───────────────────────────────────────────── */
+
+/**
+ * Find cycles in the declared NTPP/TPP hierarchy. Each cycle is reported once.
+ */
+function checkContainmentCycles(declarations: Declaration[]): Diagnostic[] {
+  const parents = new Map<string, Declaration[]>();
+  for (const d of declarations) {
+    if (d.field !== 'ntpp' && d.field !== 'tpp') continue;
+    if (d.source === d.target) continue;
+    if (!parents.has(d.source)) parents.set(d.source, []);
+    parents.get(d.source)!.push(d);
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+  const done = new Set<string>();
+
+  function visit(slug: string, path: Declaration[], onPath: Map<string, number>) {
+    if (done.has(slug)) return;
+    onPath.set(slug, path.length);
+
+    for (const d of parents.get(slug) ?? []) {
+      const start = onPath.get(d.target);
+      if (start !== undefined) {
+        const cycle = [...path.slice(start), d];
+        const members = cycle.map(c => c.source);
+        const canonical = [...members].sort().join('\u0000');
+        if (!seen.has(canonical)) {
+          seen.add(canonical);
+          diagnostics.push({
+            code: 'containment-cycle',
+            message: `Proper-part cycle ${[...members, d.target].map(s => `"${s}"`).join(' → ')}: ${cycle.map(describe).join('; ')}`,
+            file: cycle[0].file,
+            line: cycle[0].line,
+          });
+        }
+        continue;
+      }
+      visit(d.target, [...path, d], onPath);
+    }
+
+    onPath.delete(slug);
+    done.add(slug);
+  }
+
+  for (const slug of parents.keys()) visit(slug, [], new Map());
+
+  return diagnostics;
+}
+
+/* ── Sequence (next / prev) ───────────────────────────────────────── */
+
+/**
+ * Check that declared next/prev links agree with each other.
+ */
+function checkSequence(declarations: Declaration[], data: Map<string, SequenceData>): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const predecessors = new Map<string, Declaration[]>();
+
+  for (const d of declarations) {
+    if (d.field !== 'next' && d.field !== 'prev') continue;
+
+    if (d.source === d.target) {
+      diagnostics.push({
+        code: 'sequence-conflict',
+        message: `"${d.source}" declares itself as ${d.field}`,
+        file: d.file,
+        line: d.line,
+      });
+      continue;
+    }
+
+    const inverse = d.field === 'next' ? 'prev' : 'next';
+    const declared = data.get(d.target)?.[inverse];
+    if (declared && declared !== d.source) {
+      diagnostics.push({
+        code: 'sequence-conflict',
+        message: `${describe(d)}, but "${d.target}" declares ${inverse}: "${declared}"`,
+        file: d.file,
+        line: d.line,
+      });
+    }
+
+    if (d.field === 'next') {
+      if (!predecessors.has(d.target)) predecessors.set(d.target, []);
+      predecessors.get(d.target)!.push(d);
+    }
+  }
+
+  for (const [target, decls] of predecessors) {
+    if (decls.length < 2) continue;
+    diagnostics.push({
+      code: 'sequence-conflict',
+      message: `"${target}" is declared next of several pages: ${decls.map(describe).join('; ')}`,
+      file: decls[0].file,
+      line: decls[0].line,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check declared relations for logical contradictions:
+ * - pairs whose RCC-8 constraints can't all hold (via the composition table)
+ * - cycles of proper-part (NTPP/TPP) declarations
+ * - next/prev declarations that disagree
+ */
+export function checkConsistency(
+  entries: CollectionEntry<'pages'>[],
+  knownSlugs: Set<string>,
+): Diagnostic[] {
+  const declarations = entries.flatMap(entry => declarationsOf(entry, knownSlugs));
+  // The first next/prev a page declares wins, as in buildRelationsGraph
+  const sequenceData = new Map<string, SequenceData>();
+  for (const d of declarations) {
+    if (d.field !== 'next' && d.field !== 'prev') continue;
+    const sequence = sequenceData.get(d.source) ?? {};
+    sequence[d.field] ??= d.target;
+    sequenceData.set(d.source, sequence);
+  }
+
+  return [
+    ...checkContainmentCycles(declarations),
+    ...checkComposition(declarations),
+    ...checkSequence(declarations, sequenceData),
+  ];
+}
@@ -0,0 +1,81 @@
+/**
+ * How a class of build-time diagnostics is surfaced:
+ * - error: print and fail the build
+ * - warn:  print and continue
+ * - off:   ignore
+ */
+export type DiagnosticLevel = 'error' | 'warn' | 'off';
+
+export interface Diagnostic {
+  /** Machine-readable category, e.g. `unresolved-relation`. */
+  code: string;
+  message: string;
+  /** Source file relative to the project root. */
+  file?: string;
+  /** 1-based line within `file`. */
+  line?: number;
+}
+
+export class DiagnosticError extends Error {
+  constructor(public readonly diagnostics: Diagnostic[]) {
+    super(`${diagnostics.length} build diagnostic(s):\n${diagnostics.map(formatDiagnostic).join('\n')}`);
+    this.name = 'DiagnosticError';
+  }
+}
+
+/** Keys of diagnostics already printed — pages share one relations graph build. */
+const reported = new Set<string>();
+
+/**
+ * Format a diagnostic as `file:line  message (code)`.
+ */
+export function formatDiagnostic(d: Diagnostic): string {
+  const location = d.file ? `${d.file}${d.line ? `:${d.line}` : ''}` : '<unknown>';
+  return `${location}  ${d.message} (${d.code})`;
+}
+
+/**
+ * Print diagnostics according to `level`, throwing a DiagnosticError on `error`.
+ * Each distinct diagnostic is printed only once per process.
+ */
+export function reportDiagnostics(diagnostics: Diagnostic[], level: DiagnosticLevel): void {
+  if (level === 'off' || diagnostics.length === 0) return;
+
+  if (level === 'error') throw new DiagnosticError(diagnostics);
+
+  for (const d of diagnostics) {
+    const line = formatDiagnostic(d);
+    if (reported.has(line)) continue;
+    reported.add(line);
+    console.warn(`[warn] ${line}`);
+  }
+}
+
+/* ── Source helpers ───────────────────────────────────────────────── */
+
+/** Raw content sources, keyed by root-relative path (e.g. `/src/content/pages/me.mdx`). */
+let rawSources: Record<string, string> | undefined;
+
+/**
+ * Read a content source file relative to the project root, or '' if unknown.
+ */
+export function readSource(filePath: string): string {
+  // Globbed on first use, so this module also loads outside Vite (e.g. in tests)
+  rawSources ??= import.meta.glob<string>('/src/content/**/*.{md,mdx}', {
+    query: '?raw',
+    import: 'default',
+    eager: true,
+  });
+  return rawSources[`/${filePath.replace(/^\//, '')}`] ?? '';
+}
+
+/**
+ * Convert a character offset within `source` to a 1-based line number.
+ */
+export function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < source.length; i++) {
+    if (source[i] === '\n') line++;
+  }
+  return line;
+}
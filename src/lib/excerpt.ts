@@ -0,0 +1,32 @@
+/**
+ * Reduce raw MDX body to plain prose: drops imports/exports, JSX, code blocks,
+ * headings and tables, and strips emphasis and link syntax (keeping link text).
+ */
+export function mdxToPlainText(body: string): string {
+  return body
+    .replace(/^(import|export)\s.*$/gm, '')              // ESM statements
+    .replace(/^```[\s\S]*?^```/gm, '')                   // fenced code blocks
+    .replace(/<([A-Z][\w.]*)[^>]*>[\s\S]*?<\/\1>/g, '')  // JSX components with children (e.g. footnotes)
+    .replace(/<[^>]+>/g, '')                             // remaining tags
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')                // images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')             // links -> text
+    .replace(/^\s*#{1,6}\s.*$/gm, '')                    // headings
+    .replace(/^\s*(>|[-*+]|\d+\.)\s+/gm, '')             // quotes, list markers
+    .replace(/^\s*\|.*\|\s*$/gm, '')                     // tables
+    .replace(/^\s*(-{3,}|\*{3,})\s*$/gm, '')             // horizontal rules
+    .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')        // emphasis, inline code
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Plain-text excerpt of an MDX body, cut at a word boundary.
+ */
+export function plainTextExcerpt(body: string, maxLength = 280): string {
+  const text = mdxToPlainText(body);
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:—-]+$/, '')}…`;
+}
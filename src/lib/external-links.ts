@@ -0,0 +1,121 @@
+import { getCollection } from 'astro:content';
+import { config } from '@/config';
+import { pageLinks } from './page-links';
+import { isPublished } from './visibility';
+
+export interface ExternalLinkInfo {
+  url: string;
+  domain: string;
+  /** Page title of the target, or the Markdown link title if it couldn't be fetched. */
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Normalize an absolute http(s) URL, or return null for anything else
+ * (relative links, mailto, links back to this site).
+ */
+function normalizeExternal(url: string): string | null {
+  if (!/^(https?:)?\/\//.test(url)) return null;
+  try {
+    const parsed = new URL(url.startsWith('//') ? `https:${url}` : url);
+    if (import.meta.env.SITE && parsed.origin === new URL(import.meta.env.SITE).origin) return null;
+    return parsed.href;
+  } catch {
+    return null;
+  }
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&(\w+);/g, (entity, name) => ENTITIES[name] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Content of the first `<meta>` tag whose name or property is one of `keys`. */
+function metaContent(html: string, keys: string[]): string | undefined {
+  for (const tag of html.match(/<meta\s[^>]*>/gi) ?? []) {
+    const key = /(?:name|property)\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1]?.toLowerCase();
+    if (!key || !keys.includes(key)) continue;
+    const content = /content\s*=\s*"([^"]*)"|content\s*=\s*'([^']*)'/i.exec(tag);
+    const value = content?.[1] ?? content?.[2];
+    if (value) return decodeEntities(value);
+  }
+  return undefined;
+}
+
+/**
+ * Fetch an external page and read its title and description from the `<head>`.
+ * Failures (network, timeout, non-HTML) yield an empty result.
+ */
+async function fetchMetadata(url: string): Promise<{ title?: string; description?: string }> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(config.popups.externalTimeout),
+      headers: { Accept: 'text/html' },
+    });
+    if (!response.ok || !response.headers.get('content-type')?.includes('html')) return {};
+
+    const html = (await response.text()).split(/<\/head>/i)[0];
+    const titleTag = /<title[^>]*>([^<]*)<\/title>/i.exec(html)?.[1];
+    const title = metaContent(html, ['og:title', 'twitter:title']) ?? (titleTag && decodeEntities(titleTag));
+    const description = metaContent(html, ['description', 'og:description', 'twitter:description']);
+
+    return { title: title || undefined, description };
+  } catch {
+    return {};
+  }
+}
+
+/** Run `task` for each item, at most `limit` at a time. */
+async function forEachLimited<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+let cached: Promise<Map<string, ExternalLinkInfo>> | null = null;
+
+/**
+ * Every external link in page content, keyed by normalized URL.
+ * Metadata is fetched once per build when `config.popups.externalMetadata` is on,
+ * `config.popups.externalConcurrency` requests at a time.
+ */
+export function buildExternalLinkIndex(): Promise<Map<string, ExternalLinkInfo>> {
+  cached ??= (async () => {
+    const pages = await getCollection('pages', isPublished);
+    const links = new Map<string, ExternalLinkInfo>();
+
+    for (const page of pages) {
+      for (const { href, title } of pageLinks(page)) {
+        const normalized = normalizeExternal(href);
+        if (!normalized) continue;
+
+        const existing = links.get(normalized);
+        if (existing) {
+          existing.title ??= title;
+          continue;
+        }
+        links.set(normalized, { url: normalized, domain: new URL(normalized).hostname.replace(/^www\./, ''), title });
+      }
+    }
+
+    if (config.popups.externalMetadata) {
+      await forEachLimited([...links.values()], config.popups.externalConcurrency, async (link) => {
+        const metadata = await fetchMetadata(link.url);
+        link.title = metadata.title ?? link.title;
+        link.description = metadata.description;
+      });
+    }
+
+    return links;
+  })();
+  return cached;
+}
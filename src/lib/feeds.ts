@@ -0,0 +1,179 @@
+import { getCollection } from 'astro:content';
+import { config } from '@/config';
+import { mdxToPlainText, plainTextExcerpt } from './excerpt';
+import { slugToPath } from './links';
+import { buildRelationsGraph } from './relations';
+import { isListed } from './visibility';
+import { escapeXml } from './xml';
+
+export interface FeedItem {
+  slug: string;
+  title: string;
+  /** Absolute URL of the page. */
+  url: string;
+  summary?: string;
+  created: Date;
+  /** `modified`, falling back to `created`. */
+  updated: Date;
+}
+
+export interface Feed {
+  title: string;
+  description?: string;
+  /** Absolute URL of the page the feed belongs to. */
+  url: string;
+  /** Absolute URL of the feed itself, without the format suffix (e.g. `https://…/blog/`). */
+  base: string;
+  updated: Date;
+  items: FeedItem[];
+}
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/** File name of each feed format, relative to the feed base. */
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+/** MIME type each feed format is advertised with. */
+export const FEED_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+/**
+ * Path of a feed file: site-wide feeds live at the root, section feeds under the section.
+ */
+export function feedPath(format: FeedFormat, section?: string): string {
+  return section ? `/${section}/${FEED_FILES[format]}` : `/${FEED_FILES[format]}`;
+}
+
+/**
+ * Build the site-wide feed, or the feed of a section's NTPP/TPP children.
+ * Items are ordered by last modification, newest first.
+ */
+export async function buildFeed(site: URL, section?: string): Promise<Feed> {
+  const entries = await getCollection('pages', isListed);
+  const { graph, pages } = await buildRelationsGraph();
+
+  const members = section
+    ? new Set([...(graph.get(section)?.nttpi ?? []), ...(graph.get(section)?.tppi ?? [])])
+    : null;
+
+  const items: FeedItem[] = entries
+    .filter((entry) => entry.id !== 'index' && (!members || members.has(entry.id)))
+    .map((entry) => {
+      const { data } = entry;
+      return {
+        slug: entry.id,
+        title: data.title,
+        url: new URL(slugToPath(entry.id), site).href,
+        summary: (data.description && mdxToPlainText(data.description)) || plainTextExcerpt(entry.body ?? '') || undefined,
+        created: data.created,
+        updated: data.modified ?? data.created,
+      };
+    })
+    .sort((a, b) => b.updated.getTime() - a.updated.getTime())
+    .slice(0, config.feeds.limit);
+
+  const description = entries.find((entry) => entry.id === (section ?? 'index'))?.data.description;
+
+  return {
+    title: section ? `${pages.get(section)?.title ?? section} · ${config.site.name}` : config.site.name,
+    description: description && mdxToPlainText(description),
+    url: new URL(section ? slugToPath(section) : '/', site).href,
+    base: new URL(section ? `/${section}/` : '/', site).href,
+    updated: items[0]?.updated ?? new Date(0),
+    items,
+  };
+}
+
+/* ── Serialization ────────────────────────────────────────────────── */
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.url)}</link>
+      <guid isPermaLink="true">${escapeXml(item.url)}</guid>
+      <pubDate>${item.created.toUTCString()}</pubDate>${item.summary ? `
+      <description>${escapeXml(item.summary)}</description>` : ''}
+    </item>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.url)}</link>
+    <description>${escapeXml(feed.description ?? feed.title)}</description>
+    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeXml(feed.base + FEED_FILES.rss)}" rel="self" type="${FEED_TYPES.rss}" />
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.url)}" />
+    <id>${escapeXml(item.url)}</id>
+    <published>${item.created.toISOString()}</published>
+    <updated>${item.updated.toISOString()}</updated>${item.summary ? `
+    <summary>${escapeXml(item.summary)}</summary>` : ''}
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(feed.title)}</title>${feed.description ? `
+  <subtitle>${escapeXml(feed.description)}</subtitle>` : ''}
+  <link href="${escapeXml(feed.url)}" />
+  <link href="${escapeXml(feed.base + FEED_FILES.atom)}" rel="self" type="${FEED_TYPES.atom}" />
+  <id>${escapeXml(feed.url)}</id>
+  <updated>${feed.updated.toISOString()}</updated>
+  <author><name>${escapeXml(config.site.author)}</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+/** JSON Feed 1.1 (https://jsonfeed.org/version/1.1). */
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.url,
+    feed_url: feed.base + FEED_FILES.json,
+    authors: [{ name: config.site.author }],
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_text: item.summary ?? item.title,
+      date_published: item.created.toISOString(),
+      date_modified: item.updated.toISOString(),
+    })),
+  }, null, 2);
+}
+
+const RENDERERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+/**
+ * Serialize a feed as an endpoint response.
+ */
+export function feedResponse(feed: Feed, format: FeedFormat): Response {
+  return new Response(RENDERERS[format](feed), {
+    headers: {
+      'Content-Type': `${FEED_TYPES[format]}; charset=utf-8`,
+    },
+  });
+}
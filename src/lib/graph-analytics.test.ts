@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { analyzeGraph } from './graph-analytics';
+import type { EdgeType, GraphData } from './graph-data';
+
+const weights: Record<EdgeType, number> = { ntpp: 1, tpp: 1, po: 1, ec: 0.5, eq: 1, dc: 0, next: 1, r: 1, tag: 1 };
+
+/** A graph of the given `source-target:type` edges, with a node per endpoint. */
+function graph(...edges: string[]): GraphData {
+  const parsed = edges.map((edge) => {
+    const [pair, type] = edge.split(':');
+    const [source, target] = pair.split('-');
+    return { source, target, type: type as EdgeType, origin: 'declared' as const };
+  });
+  const ids = [...new Set(parsed.flatMap(e => [e.source, e.target]))].sort();
+  return { nodes: ids.map(id => ({ id, title: id, connections: 0 })), edges: parsed };
+}
+
+function betweenness(data: GraphData) {
+  return Object.fromEntries(analyzeGraph(data, { weights, inferredFactor: 0 }).nodes.map(n => [n.id, n.metrics!.betweenness]));
+}
+
+describe('betweenness', () => {
+  test('counts the pairs of other pages a page lies between', () => {
+    expect(betweenness(graph('a-b:po', 'b-c:po', 'c-d:po'))).toEqual({ a: 0, b: 0.666667, c: 0.666667, d: 0 });
+  });
+
+  test('splits a pair between its equally short paths', () => {
+    expect(betweenness(graph('a-b:po', 'b-c:po', 'c-d:po', 'd-a:po'))).toEqual({ a: 0.166667, b: 0.166667, c: 0.166667, d: 0.166667 });
+  });
+
+  test('prefers paths along strong relations', () => {
+    // a–d is 2 through b, but 4 through c, whose relations are weaker
+    expect(betweenness(graph('a-b:po', 'b-d:po', 'a-c:ec', 'c-d:ec'))).toMatchObject({ b: 0.333333, c: 0 });
+  });
+
+  test('ignores zero-weight relations and unreachable pages', () => {
+    expect(betweenness(graph('a-b:po', 'b-c:dc', 'c-d:po'))).toEqual({ a: 0, b: 0, c: 0, d: 0 });
+  });
+});
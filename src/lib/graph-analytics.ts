@@ -0,0 +1,305 @@
+import { config } from '@/config';
+import { SYMMETRIC, type EdgeType, type GraphData, type GraphNode } from './graph-data';
+
+/*
+ * Graph metrics for sizing, colouring and ranking pages. Every metric works on
+ * a weighted graph: each relation counts with its type's weight from
+ * `config.analytics`, so e.g. DC ("unrelated") doesn't make a page central.
+ */
+
+export interface NodeMetrics {
+  /** Sum of the weights of the node's relations. */
+  degree: number;
+  /** Share of a random walk along relations spent on the page (sums to 1). */
+  pagerank: number;
+  /** Share of weighted shortest paths between other pages passing through it, 0–1. */
+  betweenness: number;
+  /** Community index, 0 being the largest community. */
+  community: number;
+  /** No weighted relations at all. */
+  orphan: boolean;
+  /** Related to exactly one other page. */
+  leaf: boolean;
+}
+
+/** Metrics nodes can be sized, coloured and ranked by. */
+export type GraphMetric = 'connections' | 'degree' | 'pagerank' | 'betweenness';
+
+export const GRAPH_METRICS: Record<GraphMetric, string> = {
+  connections: 'Relations',
+  degree: 'Weighted degree',
+  pagerank: 'PageRank',
+  betweenness: 'Betweenness',
+};
+
+export interface AnalyticsOptions {
+  /** Weight per relation type; 0 ignores the type. Defaults to `config.analytics.weights`. */
+  weights?: Record<EdgeType, number>;
+  /** Factor applied to inferred relations. Defaults to `config.analytics.inferredFactor`. */
+  inferredFactor?: number;
+}
+
+const DAMPING = 0.85;
+const PAGERANK_TOLERANCE = 1e-9;
+const MAX_ITERATIONS = 100;
+
+/** Weighted adjacency: neighbour ID → summed weight, per node. */
+type Adjacency = Map<string, Map<string, number>>;
+
+function addWeight(adjacency: Adjacency, from: string, to: string, weight: number) {
+  const neighbours = adjacency.get(from)!;
+  neighbours.set(to, (neighbours.get(to) ?? 0) + weight);
+}
+
+/**
+ * Directed and undirected adjacency of the weighted graph. Symmetric relations
+ * point both ways in the directed one; zero-weight edges are left out.
+ */
+function buildAdjacency(data: GraphData, options: AnalyticsOptions): { directed: Adjacency; undirected: Adjacency } {
+  const weights = options.weights ?? config.analytics.weights;
+  const inferredFactor = options.inferredFactor ?? config.analytics.inferredFactor;
+
+  const directed: Adjacency = new Map(data.nodes.map(n => [n.id, new Map()]));
+  const undirected: Adjacency = new Map(data.nodes.map(n => [n.id, new Map()]));
+
+  for (const edge of data.edges) {
+    const weight = weights[edge.type] * (edge.origin === 'inferred' ? inferredFactor : 1);
+    if (weight <= 0 || edge.source === edge.target) continue;
+    if (!directed.has(edge.source) || !directed.has(edge.target)) continue;
+
+    addWeight(directed, edge.source, edge.target, weight);
+    if (SYMMETRIC.has(edge.type)) addWeight(directed, edge.target, edge.source, weight);
+    addWeight(undirected, edge.source, edge.target, weight);
+    addWeight(undirected, edge.target, edge.source, weight);
+  }
+
+  return { directed, undirected };
+}
+
+/* ── Metrics ──────────────────────────────────────────────────────── */
+
+/**
+ * Weighted PageRank by power iteration. Rank flows along relations, so pages
+ * that many others are part of or link to rank highest; pages without
+ * outgoing relations spread their rank evenly.
+ */
+function pageRank(directed: Adjacency): Map<string, number> {
+  const ids = [...directed.keys()];
+  const n = ids.length;
+  const outWeight = new Map(ids.map(id => [id, [...directed.get(id)!.values()].reduce((a, b) => a + b, 0)]));
+  let rank = new Map(ids.map(id => [id, 1 / n]));
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const next = new Map(ids.map(id => [id, (1 - DAMPING) / n]));
+    let dangling = 0;
+
+    for (const id of ids) {
+      const total = outWeight.get(id)!;
+      if (total === 0) {
+        dangling += rank.get(id)!;
+        continue;
+      }
+      for (const [target, weight] of directed.get(id)!) {
+        next.set(target, next.get(target)! + DAMPING * rank.get(id)! * weight / total);
+      }
+    }
+    for (const id of ids) next.set(id, next.get(id)! + DAMPING * dangling / n);
+
+    const delta = ids.reduce((sum, id) => sum + Math.abs(next.get(id)! - rank.get(id)!), 0);
+    rank = next;
+    if (delta < PAGERANK_TOLERANCE) break;
+  }
+
+  return rank;
+}
+
+/** A node queued for Dijkstra at a tentative distance. */
+type QueueEntry = [distance: number, id: string];
+
+/** Add `entry` to a binary min-heap ordered by distance. */
+function heapPush(heap: QueueEntry[], entry: QueueEntry) {
+  heap.push(entry);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+/** Remove and return the closest entry of a binary min-heap. */
+function heapPop(heap: QueueEntry[]): QueueEntry | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || !last) return top;
+
+  heap[0] = last;
+  let i = 0;
+  for (;;) {
+    const [left, right] = [2 * i + 1, 2 * i + 2];
+    let smallest = i;
+    if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+    if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+    if (smallest === i) break;
+    [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+    i = smallest;
+  }
+  return top;
+}
+
+/**
+ * Betweenness centrality (Brandes), with the length of a relation being the
+ * inverse of its weight so strong relations make short paths. Normalised by
+ * the number of pairs of other nodes. Each source runs Dijkstra with a binary
+ * heap, so the whole is O(n·m log n).
+ */
+function betweenness(undirected: Adjacency): Map<string, number> {
+  const ids = [...undirected.keys()];
+  const centrality = new Map(ids.map(id => [id, 0]));
+  const EPSILON = 1e-9;
+
+  for (const source of ids) {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>(ids.map(id => [id, []]));
+    const paths = new Map(ids.map(id => [id, 0]));
+    const distance = new Map(ids.map(id => [id, Infinity]));
+    const settled = new Set<string>();
+    const queue: QueueEntry[] = [[0, source]];
+    paths.set(source, 1);
+    distance.set(source, 0);
+
+    // Nodes are queued again when their distance shrinks; stale entries are skipped
+    for (let entry = heapPop(queue); entry; entry = heapPop(queue)) {
+      const current = entry[1];
+      if (settled.has(current)) continue;
+      settled.add(current);
+      stack.push(current);
+
+      for (const [next, weight] of undirected.get(current)!) {
+        if (settled.has(next)) continue;
+        const length = distance.get(current)! + 1 / weight;
+        const known = distance.get(next)!;
+        if (length < known - EPSILON) {
+          distance.set(next, length);
+          paths.set(next, paths.get(current)!);
+          predecessors.set(next, [current]);
+          heapPush(queue, [length, next]);
+        } else if (Math.abs(length - known) <= EPSILON) {
+          paths.set(next, paths.get(next)! + paths.get(current)!);
+          predecessors.get(next)!.push(current);
+        }
+      }
+    }
+
+    // Accumulate dependencies, farthest nodes first
+    const dependency = new Map(ids.map(id => [id, 0]));
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (const previous of predecessors.get(node)!) {
+        const share = paths.get(previous)! / paths.get(node)! * (1 + dependency.get(node)!);
+        dependency.set(previous, dependency.get(previous)! + share);
+      }
+      if (node !== source) centrality.set(node, centrality.get(node)! + dependency.get(node)!);
+    }
+  }
+
+  // Each pair was counted from both ends
+  const n = ids.length;
+  const pairs = (n - 1) * (n - 2);
+  return new Map(ids.map(id => [id, pairs > 0 ? centrality.get(id)! / pairs : 0]));
+}
+
+/**
+ * Communities by weighted label propagation: each node repeatedly adopts the
+ * label carrying the most weight among its neighbours. Nodes are visited in ID
+ * order and ties go to the current label, then the smallest, so the result is
+ * deterministic. Communities are numbered by size, largest first.
+ */
+function communities(undirected: Adjacency): Map<string, number> {
+  const ids = [...undirected.keys()].sort();
+  const label = new Map(ids.map(id => [id, id]));
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let changed = false;
+
+    for (const id of ids) {
+      const totals = new Map<string, number>();
+      for (const [neighbour, weight] of undirected.get(id)!) {
+        const l = label.get(neighbour)!;
+        totals.set(l, (totals.get(l) ?? 0) + weight);
+      }
+      if (totals.size === 0) continue;
+
+      const best = Math.max(...totals.values());
+      const current = label.get(id)!;
+      if (totals.get(current) === best) continue;
+
+      const chosen = [...totals].filter(([, total]) => total === best).map(([l]) => l).sort()[0];
+      label.set(id, chosen);
+      changed = true;
+    }
+
+    if (!changed) break;
+  }
+
+  const members = new Map<string, string[]>();
+  for (const id of ids) {
+    const l = label.get(id)!;
+    if (!members.has(l)) members.set(l, []);
+    members.get(l)!.push(id);
+  }
+  const ordered = [...members.values()].sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+
+  const community = new Map<string, number>();
+  ordered.forEach((group, index) => group.forEach(id => community.set(id, index)));
+  return community;
+}
+
+/* ── Analysis ─────────────────────────────────────────────────────── */
+
+/**
+ * Compute every metric and return a copy of `data` with `metrics` set on each
+ * node. Metrics are relative to the graph they are computed on, so analyse the
+ * full graph and extract subgraphs afterwards.
+ */
+export function analyzeGraph(data: GraphData, options: AnalyticsOptions = {}): GraphData {
+  const { directed, undirected } = buildAdjacency(data, options);
+  const ranks = pageRank(directed);
+  const between = betweenness(undirected);
+  const community = communities(undirected);
+
+  // Enough precision to rank by, without bloating the serialised graph
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  return {
+    ...data,
+    nodes: data.nodes.map((n) => {
+      const neighbours = undirected.get(n.id)!;
+      const degree = [...neighbours.values()].reduce((a, b) => a + b, 0);
+      const metrics: NodeMetrics = {
+        degree: round(degree),
+        pagerank: round(ranks.get(n.id)!),
+        betweenness: round(between.get(n.id)!),
+        community: community.get(n.id)!,
+        orphan: neighbours.size === 0,
+        leaf: neighbours.size === 1,
+      };
+      return { ...n, metrics };
+    }),
+  };
+}
+
+/** A node's value for `metric`; 0 when the graph hasn't been analysed. */
+export function metricValue(node: GraphNode, metric: GraphMetric): number {
+  return metric === 'connections' ? node.connections : node.metrics?.[metric] ?? 0;
+}
+
+/**
+ * The `limit` nodes ranking highest by `metric`, ties broken by title.
+ */
+export function topNodes(data: GraphData, metric: GraphMetric, limit: number): GraphNode[] {
+  return [...data.nodes]
+    .sort((a, b) => metricValue(b, metric) - metricValue(a, metric) || a.title.localeCompare(b.title))
+    .slice(0, limit);
+}
@@ -1,61 +1,84 @@
-import type { RelationsGraph, PageInfoMap } from './relations';
+import { config } from '@/config';
+import type { NodeMetrics } from './graph-analytics';
+import type { GraphLayout } from './graph-layout';
+import type { RelationsGraph, PageInfoMap, RelationOrigin } from './relations';
 
 export interface GraphNode {
   id: string;
   title: string;
+  /** Number of declared relations, of any type. */
   connections: number;
+  /** Precomputed position (see lib/graph-layout.ts). */
+  x?: number;
+  y?: number;
+  /** Weighted graph metrics (see lib/graph-analytics.ts). */
+  metrics?: NodeMetrics;
 }
 
 export interface GraphEdge {
   source: string;
   target: string;
   type: EdgeType;
+  origin: RelationOrigin;
 }
 
-export type EdgeType = 'ntpp' | 'tpp' | 'po' | 'ec' | 'eq' | 'dc' | 'next' | 'r';
+export type EdgeType = 'ntpp' | 'tpp' | 'po' | 'ec' | 'eq' | 'dc' | 'next' | 'r' | 'tag';
 
 export interface GraphData {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  /** Layout the node positions come from, if precomputed. */
+  layout?: GraphLayout;
 }
 
 /** Symmetric relation types — only emit one edge per pair. */
-const SYMMETRIC: Set<string> = new Set(['po', 'ec', 'eq', 'dc']);
+export const SYMMETRIC: Set<EdgeType> = new Set(['po', 'ec', 'eq', 'dc', 'tag']);
 
 /**
  * Build a full graph data structure (nodes + edges) from the relations graph.
  * Deduplicates symmetric edges so only one edge exists per pair.
+ * Inferred relations become edges with `origin: 'inferred'` and don't count
+ * towards a node's connections.
+ *
+ * Unlisted pages, and edges touching them, are left out — except `focus`,
+ * which is kept so an unlisted page can still show its own neighbourhood.
+ *
+ * With `config.relations.tagEdges`, pages sharing at least one tag get a
+ * `tag` edge. These aren't relations, so they don't count as connections.
  */
 export function buildGraphData(
   graph: RelationsGraph,
   pages: PageInfoMap,
+  focus?: string,
 ): GraphData {
   const nodes: GraphNode[] = [];
   const edges: GraphEdge[] = [];
   const seen = new Set<string>();
+  const visible = (slug: string) => slug === focus || pages.get(slug)?.listed === true;
+  const count = (targets: (string | undefined)[]) => targets.filter(t => t && visible(t)).length;
 
   for (const [slug, rel] of graph) {
     const info = pages.get(slug);
-    if (!info) continue;
+    if (!info || !visible(slug)) continue;
 
     // Count total connections for sizing
     const connections =
-      rel.ntpp.length + rel.nttpi.length +
-      rel.tpp.length + rel.tppi.length +
-      rel.po.length + rel.ec.length +
-      rel.eq.length + rel.dc.length +
-      (rel.next ? 1 : 0) + (rel.prev ? 1 : 0) +
-      rel.r.length + rel.ri.length;
+      count(rel.ntpp) + count(rel.nttpi) +
+      count(rel.tpp) + count(rel.tppi) +
+      count(rel.po) + count(rel.ec) +
+      count(rel.eq) + count(rel.dc) +
+      count([rel.next, rel.prev]) +
+      count(rel.r) + count(rel.ri);
 
     nodes.push({ id: slug, title: info.title, connections });
 
     // Directional: NTPP (source is deeply contained in target)
     for (const target of rel.ntpp) {
-      edges.push({ source: slug, target, type: 'ntpp' });
+      edges.push({ source: slug, target, type: 'ntpp', origin: 'declared' });
     }
     // Directional: TPP (source is tangentially part of target)
     for (const target of rel.tpp) {
-      edges.push({ source: slug, target, type: 'tpp' });
+      edges.push({ source: slug, target, type: 'tpp', origin: 'declared' });
     }
 
     // Symmetric relations — deduplicate by sorted key
@@ -64,7 +87,7 @@ export function buildGraphData(
         const key = [slug, target].sort().join('::') + '::' + type;
         if (seen.has(key)) continue;
         seen.add(key);
-        edges.push({ source: slug, target, type });
+        edges.push({ source: slug, target, type, origin: 'declared' });
       }
     }
 
@@ -73,17 +96,55 @@ export function buildGraphData(
       const key = [slug, rel.next].sort().join('::') + '::next';
       if (!seen.has(key)) {
         seen.add(key);
-        edges.push({ source: slug, target: rel.next, type: 'next' });
+        edges.push({ source: slug, target: rel.next, type: 'next', origin: 'declared' });
       }
     }
 
     // Directional: references (source links to target)
     for (const target of rel.r) {
-      edges.push({ source: slug, target, type: 'r' });
+      edges.push({ source: slug, target, type: 'r', origin: 'declared' });
+    }
+
+    // Inferred RCC-8 relations — inverses (nttpi, tppi) mirror the other side
+    for (const type of ['ntpp', 'tpp'] as const) {
+      for (const target of rel.inferred[type]) {
+        edges.push({ source: slug, target, type, origin: 'inferred' });
+      }
+    }
+    for (const type of ['po', 'ec', 'eq', 'dc'] as const) {
+      for (const target of rel.inferred[type]) {
+        const key = [slug, target].sort().join('::') + '::' + type;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        edges.push({ source: slug, target, type, origin: 'inferred' });
+      }
+    }
+  }
+
+  if (config.relations.tagEdges) edges.push(...tagEdges(nodes, pages));
+
+  return { nodes, edges: edges.filter(e => visible(e.target)) };
+}
+
+/**
+ * One `tag` edge per pair of nodes sharing a tag, however many they share.
+ */
+function tagEdges(nodes: GraphNode[], pages: PageInfoMap): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  const tagged = nodes
+    .map(n => ({ id: n.id, tags: new Set(pages.get(n.id)!.tags) }))
+    .filter(n => n.tags.size > 0);
+
+  for (let i = 0; i < tagged.length; i++) {
+    for (let j = i + 1; j < tagged.length; j++) {
+      const [a, b] = [tagged[i], tagged[j]];
+      if ([...a.tags].some(tag => b.tags.has(tag))) {
+        edges.push({ source: a.id, target: b.id, type: 'tag', origin: 'declared' });
+      }
     }
   }
 
-  return { nodes, edges };
+  return edges;
 }
 
 export interface SubgraphOptions {
@@ -95,7 +156,8 @@ export interface SubgraphOptions {
 
 /**
  * Build a subgraph centered on a root page, including only specified relation
- * types and traversing up to `depth` hops.
+ * types and traversing up to `depth` hops. Only declared edges are traversed;
+ * inferred edges are kept between the nodes that were reached.
  */
 export function buildSubgraphData(
   graph: RelationsGraph,
@@ -103,12 +165,25 @@ export function buildSubgraphData(
   rootSlug: string,
   opts: SubgraphOptions,
 ): GraphData {
-  const full = buildGraphData(graph, pages);
+  return extractSubgraph(buildGraphData(graph, pages, rootSlug), rootSlug, opts);
+}
+
+/**
+ * The neighbourhood of `rootSlug` within already-built graph data, as in
+ * `buildSubgraphData`. Pure, so the /graph page can run it on the client.
+ */
+export function extractSubgraph(
+  full: GraphData,
+  rootSlug: string,
+  opts: SubgraphOptions,
+): GraphData {
   const typesSet = new Set(opts.relationTypes);
 
   // Filter edges to only requested types
   const relevantEdges = full.edges.filter(e => typesSet.has(e.type));
 
+  const declaredEdges = relevantEdges.filter(e => e.origin === 'declared');
+
   // BFS from root up to depth hops
   const includedSlugs = new Set<string>();
   let frontier = new Set<string>([rootSlug]);
@@ -121,7 +196,7 @@ export function buildSubgraphData(
 
     const nextFrontier = new Set<string>();
     for (const slug of frontier) {
-      for (const edge of relevantEdges) {
+      for (const edge of declaredEdges) {
         if (edge.source === slug && !includedSlugs.has(edge.target)) {
           nextFrontier.add(edge.target);
         }
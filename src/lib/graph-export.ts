@@ -0,0 +1,239 @@
+import { config } from '@/config';
+import { SYMMETRIC, type EdgeType, type GraphData } from './graph-data';
+import { slugToPath } from './links';
+import { escapeXml } from './xml';
+
+/*
+ * Serialise graph data for other tools: GraphML (Gephi, yEd), Graphviz DOT,
+ * RDF as JSON-LD, and Obsidian Canvas. Each exporter takes any GraphData, so
+ * the full graph and subgraphs (e.g. the /graph page's focus mode) export alike.
+ *
+ * Pure, so the /graph page can export its current view on the client.
+ */
+
+export type GraphExportFormat = 'graphml' | 'dot' | 'jsonld' | 'canvas';
+
+export interface GraphExporter {
+  label: string;
+  /** File extension, without the dot. */
+  extension: string;
+  contentType: string;
+  serialize(data: GraphData, site: URL): string;
+}
+
+function pageUrl(slug: string, site: URL): string {
+  return new URL(slugToPath(slug), site).href;
+}
+
+/* ── GraphML ──────────────────────────────────────────────────────── */
+
+/**
+ * GraphML with node title, URL, connection count and position, and edge type
+ * and origin as data keys. Symmetric relations are undirected edges.
+ */
+export function toGraphML(data: GraphData, site: URL): string {
+  const keys = [
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="url" for="node" attr.name="url" attr.type="string"/>',
+    '  <key id="connections" for="node" attr.name="connections" attr.type="int"/>',
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="type" for="edge" attr.name="type" attr.type="string"/>',
+    '  <key id="origin" for="edge" attr.name="origin" attr.type="string"/>',
+  ];
+
+  const nodes = data.nodes.map((n) => {
+    const position = n.x !== undefined && n.y !== undefined
+      ? `\n      <data key="x">${n.x}</data>\n      <data key="y">${n.y}</data>`
+      : '';
+    return `    <node id="${escapeXml(n.id)}">
+      <data key="label">${escapeXml(n.title)}</data>
+      <data key="url">${escapeXml(pageUrl(n.id, site))}</data>
+      <data key="connections">${n.connections}</data>${position}
+    </node>`;
+  });
+
+  const edges = data.edges.map((e, i) => {
+    const directed = SYMMETRIC.has(e.type) ? ' directed="false"' : '';
+    return `    <edge id="e${i}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}"${directed}>
+      <data key="type">${e.type}</data>
+      <data key="origin">${e.origin}</data>
+    </edge>`;
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+${keys.join('\n')}
+  <graph id="relations" edgedefault="directed">
+${[...nodes, ...edges].join('\n')}
+  </graph>
+</graphml>
+`;
+}
+
+/* ── DOT ──────────────────────────────────────────────────────────── */
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+/**
+ * Graphviz digraph. Symmetric relations have no arrowhead and inferred ones
+ * are dashed; node positions are left to the Graphviz layout engine.
+ */
+export function toDot(data: GraphData, site: URL): string {
+  const nodes = data.nodes.map(n =>
+    `  ${dotString(n.id)} [label=${dotString(n.title)}, URL=${dotString(pageUrl(n.id, site))}];`);
+
+  const edges = data.edges.map((e) => {
+    const attrs = [`label=${dotString(e.type)}`];
+    if (SYMMETRIC.has(e.type)) attrs.push('dir=none');
+    if (e.origin === 'inferred') attrs.push('style=dashed');
+    return `  ${dotString(e.source)} -> ${dotString(e.target)} [${attrs.join(', ')}];`;
+  });
+
+  return `digraph relations {
+  node [shape=box, fontname="sans-serif"];
+  edge [fontname="sans-serif", fontsize=9];
+
+${nodes.join('\n')}
+
+${edges.join('\n')}
+}
+`;
+}
+
+/* ── JSON-LD ──────────────────────────────────────────────────────── */
+
+/**
+ * Predicate for each relation type. RCC-8 relations use the GeoSPARQL
+ * vocabulary; sequence and reference links have no RCC-8 meaning. Shared
+ * tags say nothing about how two pages relate, so they aren't stated.
+ */
+const PREDICATES: Record<Exclude<EdgeType, 'tag'>, string> = {
+  ntpp: 'geo:rcc8ntpp',
+  tpp: 'geo:rcc8tpp',
+  po: 'geo:rcc8po',
+  ec: 'geo:rcc8ec',
+  eq: 'geo:rcc8eq',
+  dc: 'geo:rcc8dc',
+  next: 'xhv:next',
+  r: 'schema:citation',
+};
+
+/**
+ * RDF graph as JSON-LD: one schema:WebPage per node with its relations as
+ * properties. Inferred relations are included, as they are entailed by the
+ * declared ones; symmetric relations are stated in both directions.
+ */
+export function toJsonLd(data: GraphData, site: URL): string {
+  const ids = new Map(data.nodes.map(n => [n.id, pageUrl(n.id, site)]));
+  const relations = new Map(data.nodes.map(n => [n.id, new Map<keyof typeof PREDICATES, Set<string>>()]));
+
+  const add = (source: string, target: string, type: keyof typeof PREDICATES) => {
+    const byType = relations.get(source);
+    const iri = ids.get(target);
+    if (!byType || !iri) return;
+    if (!byType.has(type)) byType.set(type, new Set());
+    byType.get(type)!.add(iri);
+  };
+  for (const e of data.edges) {
+    if (e.type === 'tag') continue;
+    add(e.source, e.target, e.type);
+    if (SYMMETRIC.has(e.type)) add(e.target, e.source, e.type);
+  }
+
+  const context: Record<string, unknown> = {
+    schema: 'https://schema.org/',
+    geo: 'http://www.opengis.net/ont/geosparql#',
+    xhv: 'http://www.w3.org/1999/xhtml/vocab#',
+    name: 'schema:name',
+  };
+  for (const [type, predicate] of Object.entries(PREDICATES)) {
+    context[type] = { '@id': predicate, '@type': '@id' };
+  }
+
+  const graph = data.nodes.map((n) => {
+    const node: Record<string, unknown> = {
+      '@id': ids.get(n.id),
+      '@type': 'schema:WebPage',
+      name: n.title,
+    };
+    for (const [type, targets] of relations.get(n.id)!) {
+      node[type] = [...targets];
+    }
+    return node;
+  });
+
+  return JSON.stringify({ '@context': context, '@graph': graph }, null, 2);
+}
+
+/* ── Obsidian Canvas ──────────────────────────────────────────────── */
+
+/** Size of a canvas card, and the factor layout positions are spread by to fit them. */
+const CANVAS_CARD = { width: 240, height: 60 };
+const CANVAS_SCALE = 3;
+
+export interface CanvasOptions {
+  /** Vault folder the notes are in; empty for the vault root. */
+  folder: string;
+  /** Extension of the notes, without the dot. */
+  extension: string;
+}
+
+/**
+ * Obsidian `.canvas` (JSON Canvas) with a file card per page, placed by the
+ * graph's precomputed layout. Cards point to `<folder>/<slug>.<extension>`,
+ * so the canvas resolves in a vault with a note per page laid out like the
+ * content collection (src/content/pages).
+ */
+export function toCanvas(data: GraphData, { folder, extension }: CanvasOptions = config.exports.canvas): string {
+  const prefix = folder.replace(/^\/+|\/+$/g, '');
+  const nodes = data.nodes.map(n => ({
+    id: n.id,
+    type: 'file',
+    file: `${prefix ? `${prefix}/` : ''}${n.id}.${extension}`,
+    x: Math.round((n.x ?? 0) * CANVAS_SCALE - CANVAS_CARD.width / 2),
+    y: Math.round((n.y ?? 0) * CANVAS_SCALE - CANVAS_CARD.height / 2),
+    ...CANVAS_CARD,
+  }));
+
+  const edges = data.edges.map((e, i) => ({
+    id: `e${i}`,
+    fromNode: e.source,
+    toNode: e.target,
+    toEnd: SYMMETRIC.has(e.type) ? 'none' : 'arrow',
+    label: e.origin === 'inferred' ? `${e.type} (inferred)` : e.type,
+  }));
+
+  return JSON.stringify({ nodes, edges }, null, 2);
+}
+
+/* ── Formats ──────────────────────────────────────────────────────── */
+
+export const GRAPH_EXPORTS: Record<GraphExportFormat, GraphExporter> = {
+  graphml: {
+    label: 'GraphML',
+    extension: 'graphml',
+    contentType: 'application/graphml+xml; charset=utf-8',
+    serialize: toGraphML,
+  },
+  dot: {
+    label: 'DOT',
+    extension: 'dot',
+    contentType: 'text/vnd.graphviz; charset=utf-8',
+    serialize: toDot,
+  },
+  jsonld: {
+    label: 'JSON-LD',
+    extension: 'jsonld',
+    contentType: 'application/ld+json',
+    serialize: toJsonLd,
+  },
+  canvas: {
+    label: 'Canvas',
+    extension: 'canvas',
+    contentType: 'application/json',
+    serialize: data => toCanvas(data),
+  },
+};
@@ -0,0 +1,223 @@
+import * as d3 from 'd3';
+import type { GraphData, GraphNode } from './graph-data';
+
+/*
+ * Node placement for graph views. Runs at build time, so pages ship with
+ * their layout, and on the client when the /graph page switches layouts.
+ * All layouts are deterministic: the same graph always lays out the same way.
+ */
+
+/**
+ * - force:  seeded force simulation, refined live by the renderer
+ * - tree:   containment hierarchy along NTPP/TPP edges, parents above children
+ * - radial: rings of increasing distance around a root page
+ */
+export type GraphLayout = 'force' | 'tree' | 'radial';
+
+export interface LayoutOptions {
+  layout?: GraphLayout;
+  /** Center of the radial layout. Defaults to the home page. */
+  root?: string;
+}
+
+/** Seed for the force layout's random source (used to separate overlapping nodes). */
+const LAYOUT_SEED = 0x5eed;
+
+/** Spacing of the tree layout: between siblings, and between levels. */
+const TREE_SPACING: [number, number] = [90, 110];
+
+/** Distance between rings of the radial layout. */
+const RADIAL_RING = 120;
+
+type LayoutNode = GraphNode & d3.SimulationNodeDatum;
+
+/* ── Forces ───────────────────────────────────────────────────────── */
+
+export function nodeRadius(connections: number): number {
+  return Math.max(4, Math.min(16, 4 + Math.sqrt(connections) * 2.5));
+}
+
+/**
+ * Create the d3 simulation with the graph's forces. Shared by the build-time
+ * layout and the renderer's live simulation so both settle the same way.
+ */
+export function createForceSimulation<N extends d3.SimulationNodeDatum & { id: string; connections: number }>(
+  nodes: N[],
+  edges: d3.SimulationLinkDatum<N>[],
+): d3.Simulation<N, d3.SimulationLinkDatum<N>> {
+  return d3.forceSimulation<N>(nodes)
+    .force('link', d3.forceLink<N, d3.SimulationLinkDatum<N>>(edges)
+      .id(d => d.id)
+      .distance(80))
+    .force('charge', d3.forceManyBody<N>().strength(-200))
+    .force('center', d3.forceCenter(0, 0))
+    .force('collide', d3.forceCollide<N>()
+      .radius(d => nodeRadius(d.connections) + 8));
+}
+
+/* ── Layouts ──────────────────────────────────────────────────────── */
+
+function forceLayout(data: GraphData): Map<string, [number, number]> {
+  const nodes: LayoutNode[] = data.nodes.map(n => ({ ...n, x: undefined, y: undefined }));
+  const ids = new Set(nodes.map(n => n.id));
+  const edges = data.edges
+    .filter(e => ids.has(e.source) && ids.has(e.target))
+    .map(e => ({ source: e.source, target: e.target }));
+
+  const simulation = createForceSimulation(nodes, edges)
+    .randomSource(d3.randomLcg(LAYOUT_SEED))
+    .stop();
+
+  // Run to the same resting point a live simulation reaches
+  const ticks = Math.ceil(Math.log(simulation.alphaMin()) / Math.log(1 - simulation.alphaDecay()));
+  simulation.tick(ticks);
+
+  return new Map(nodes.map(n => [n.id, [n.x!, n.y!]]));
+}
+
+/**
+ * Parent of each node in the containment hierarchy: its first NTPP target,
+ * falling back to TPP (as breadcrumbs do). Links that would close a cycle are dropped.
+ */
+function containmentParents(data: GraphData): Map<string, string> {
+  const ids = new Set(data.nodes.map(n => n.id));
+  const parents = new Map<string, string>();
+
+  for (const type of ['ntpp', 'tpp'] as const) {
+    for (const edge of data.edges) {
+      if (edge.type !== type || edge.origin !== 'declared') continue;
+      if (!ids.has(edge.target) || parents.has(edge.source)) continue;
+
+      let ancestor: string | undefined = edge.target;
+      while (ancestor && ancestor !== edge.source) ancestor = parents.get(ancestor);
+      if (!ancestor) parents.set(edge.source, edge.target);
+    }
+  }
+
+  return parents;
+}
+
+/**
+ * Parent of each node in a breadth-first traversal from `root` over declared
+ * edges in either direction, or null for nodes it doesn't reach.
+ */
+function distanceParents(data: GraphData, root: string): Map<string, string | null> {
+  const neighbours = new Map<string, string[]>(data.nodes.map(n => [n.id, []]));
+  for (const edge of data.edges) {
+    if (edge.origin !== 'declared') continue;
+    neighbours.get(edge.source)?.push(edge.target);
+    neighbours.get(edge.target)?.push(edge.source);
+  }
+
+  const parents = new Map<string, string | null>([[root, null]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of neighbours.get(current) ?? []) {
+      if (parents.has(next) || !neighbours.has(next)) continue;
+      parents.set(next, current);
+      queue.push(next);
+    }
+  }
+
+  return parents;
+}
+
+/** Synthetic root joining the hierarchy's top-level nodes. */
+const FOREST_ROOT = '\0root';
+
+/**
+ * Lay out a parent map with d3.tree, returning each node's hierarchy point.
+ * Top-level nodes (no parent) hang off a synthetic root that is then left out.
+ */
+function treePoints(
+  data: GraphData,
+  parentOf: (id: string) => string | undefined,
+  tree: d3.TreeLayout<{ id: string }>,
+): Map<string, d3.HierarchyPointNode<{ id: string }>> {
+  const rows = [
+    { id: FOREST_ROOT, parent: undefined as string | undefined },
+    ...data.nodes.map(n => ({ id: n.id, parent: parentOf(n.id) ?? FOREST_ROOT })),
+  ];
+  const titles = new Map(data.nodes.map(n => [n.id, n.title]));
+
+  const hierarchy = d3.stratify<{ id: string; parent?: string }>()
+    .id(d => d.id)
+    .parentId(d => d.parent)(rows)
+    .sort((a, b) => (titles.get(a.id!) ?? '').localeCompare(titles.get(b.id!) ?? ''));
+
+  const points = new Map<string, d3.HierarchyPointNode<{ id: string }>>();
+  tree(hierarchy).each((node) => {
+    if (node.data.id !== FOREST_ROOT) points.set(node.data.id, node);
+  });
+  return points;
+}
+
+function treeLayout(data: GraphData): Map<string, [number, number]> {
+  const parents = containmentParents(data);
+  const points = treePoints(data, id => parents.get(id), d3.tree<{ id: string }>().nodeSize(TREE_SPACING));
+
+  // Depth 1 is the top row, since the synthetic root is dropped
+  return new Map([...points].map(([id, p]) => [id, [p.x, (p.depth - 1) * TREE_SPACING[1]]]));
+}
+
+function radialLayout(data: GraphData, root: string): Map<string, [number, number]> {
+  const parents = distanceParents(data, root);
+  const maxDepth = Math.max(1, ...[...parents.keys()].map((id) => {
+    let depth = 0;
+    for (let p = parents.get(id); p; p = parents.get(p)) depth++;
+    return depth;
+  }));
+
+  // Unreachable nodes share the outermost ring
+  const parentOf = (id: string) => parents.has(id) ? (parents.get(id) ?? undefined) : undefined;
+  const reachable = (id: string) => parents.has(id);
+  const tree = d3.tree<{ id: string }>()
+    .size([2 * Math.PI, 1])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(a.depth, 1));
+  const points = treePoints(data, parentOf, tree);
+
+  return new Map([...points].map(([id, p]) => {
+    const ring = id === root ? 0 : reachable(id) ? p.depth - 1 : maxDepth + 1;
+    const radius = ring * RADIAL_RING;
+    return [id, [radius * Math.sin(p.x), -radius * Math.cos(p.x)]];
+  }));
+}
+
+/**
+ * Compute node positions, centered on the origin, and return a copy of `data`
+ * with `x`/`y` set on every node and `layout` recording how they were placed.
+ */
+export function layoutGraph(data: GraphData, options: LayoutOptions = {}): GraphData {
+  const { layout = 'force' } = options;
+  if (data.nodes.length === 0) return { ...data, layout };
+
+  const root = options.root && data.nodes.some(n => n.id === options.root)
+    ? options.root
+    : data.nodes.find(n => n.id === 'index')?.id ?? data.nodes[0].id;
+
+  const positions = layout === 'tree'
+    ? treeLayout(data)
+    : layout === 'radial'
+      ? radialLayout(data, root)
+      : forceLayout(data);
+
+  // Center the bounding box (the radial layout is already centered on its root)
+  let [dx, dy] = [0, 0];
+  if (layout !== 'radial') {
+    const xs = [...positions.values()].map(p => p[0]);
+    const ys = [...positions.values()].map(p => p[1]);
+    dx = (Math.min(...xs) + Math.max(...xs)) / 2;
+    dy = (Math.min(...ys) + Math.max(...ys)) / 2;
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  return {
+    ...data,
+    layout,
+    nodes: data.nodes.map((n) => {
+      const [x, y] = positions.get(n.id) ?? [0, 0];
+      return { ...n, x: round(x - dx), y: round(y - dy) };
+    }),
+  };
+}
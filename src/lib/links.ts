@@ -0,0 +1,38 @@
+/**
+ * Resolve an href to the page slug it points at.
+ * Returns null for external links, same-page anchors, mailto and static assets.
+ */
+export function resolveInternalHref(href: string): string | null {
+  // Skip external links, anchors, mailto
+  if (href.startsWith('http') || href.startsWith('//') || href.startsWith('#') || href.startsWith('mailto:')) {
+    return null;
+  }
+
+  // Drop fragment and query
+  let targetPath = href.split(/[#?]/)[0];
+
+  // Normalize to path
+  if (targetPath.startsWith('./')) targetPath = targetPath.slice(1);
+  if (!targetPath.startsWith('/')) targetPath = '/' + targetPath;
+  if (targetPath.endsWith('/') && targetPath !== '/') targetPath = targetPath.slice(0, -1);
+
+  // Static assets (e.g. /dsrd-reference.html) are not pages
+  if (/\.[a-z0-9]+$/i.test(targetPath)) return null;
+
+  return pathToSlug(targetPath);
+}
+
+/**
+ * Convert a page slug to its URL path.
+ */
+export function slugToPath(slug: string): string {
+  return slug === 'index' ? '/' : `/${slug}`;
+}
+
+/**
+ * Convert a URL path back to a page slug.
+ */
+export function pathToSlug(path: string): string {
+  if (path === '/') return 'index';
+  return path.replace(/^\//, '');
+}
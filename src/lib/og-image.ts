@@ -0,0 +1,178 @@
+import { create, type Font } from 'fontkitten';
+import sharp from 'sharp';
+import { config } from '@/config';
+import latoRegular from '@/assets/fonts/Lato-Regular.ttf?inline';
+import sourceCodeProRegular from '@/assets/fonts/SourceCodePro-Regular.ttf?inline';
+import globalCss from '@/styles/global.css?raw';
+import { escapeXml } from './xml';
+
+/*
+ * Social cards are drawn as SVG with every glyph converted to an outline from
+ * the bundled fonts, then rasterized with sharp — so rendering needs neither
+ * network access nor system fonts.
+ */
+
+export const CARD_WIDTH = 1200;
+export const CARD_HEIGHT = 630;
+
+/** The `--color-*` tokens of the @theme block in styles/global.css, by name. */
+const THEME_COLORS = new Map(
+  [...(globalCss.match(/@theme\s*{[^}]*}/)?.[0] ?? '').matchAll(/--color-([\w-]+):\s*([^;]+);/g)]
+    .map(([, name, value]) => [name, value.trim()]),
+);
+
+function themeColor(name: string): string {
+  const value = THEME_COLORS.get(name);
+  if (!value) throw new Error(`styles/global.css has no --color-${name} in its @theme block`);
+  return value;
+}
+
+/** Cards use the light theme's colors. */
+const COLORS = {
+  bg: themeColor('bg'),
+  bgSubtle: themeColor('bg-subtle'),
+  text: themeColor('text'),
+  textMuted: themeColor('text-muted'),
+  textSubtle: themeColor('text-subtle'),
+  border: themeColor('border'),
+  accent: themeColor('accent'),
+};
+
+const PADDING = 80;
+
+export interface CardContent {
+  title: string;
+  description?: string;
+  /** Titles of the pages above this one, root first. */
+  trail: string[];
+}
+
+function loadFont(dataUrl: string): Font {
+  return create(Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1), 'base64')) as Font;
+}
+
+let fonts: { sans: Font; mono: Font } | null = null;
+
+function getFonts() {
+  fonts ??= { sans: loadFont(latoRegular), mono: loadFont(sourceCodeProRegular) };
+  return fonts;
+}
+
+function textWidth(font: Font, text: string, size: number): number {
+  const scale = size / font.unitsPerEm;
+  return font.glyphsForString(text).reduce((width, glyph) => width + glyph.advanceWidth * scale, 0);
+}
+
+/**
+ * Outline `text` as SVG paths with its baseline starting at (x, y).
+ */
+function textPaths(font: Font, text: string, size: number, x: number, y: number, fill: string): string {
+  const scale = size / font.unitsPerEm;
+  const paths: string[] = [];
+  let cursor = x;
+
+  for (const glyph of font.glyphsForString(text)) {
+    const d = glyph.path.toSVG();
+    if (d) {
+      paths.push(`<path transform="translate(${cursor.toFixed(1)} ${y}) scale(${scale} ${-scale})" d="${d}" />`);
+    }
+    cursor += glyph.advanceWidth * scale;
+  }
+
+  return `<g fill="${fill}">${paths.join('')}</g>`;
+}
+
+/**
+ * Greedy word wrap into at most `maxLines` lines, ending with an ellipsis if cut.
+ */
+function wrapText(font: Font, text: string, size: number, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  let truncated = false;
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (!line || textWidth(font, candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) {
+      truncated = true;
+      break;
+    }
+  }
+  if (!truncated && line) lines.push(line);
+
+  // Ellipsize the last line if text was cut or a single word overflows
+  const last = lines.length - 1;
+  if (last >= 0 && (truncated || textWidth(font, lines[last], size) > maxWidth)) {
+    let cut = lines[last];
+    while (cut && textWidth(font, `${cut}…`, size) > maxWidth) cut = cut.slice(0, -1).trimEnd();
+    lines[last] = `${cut}…`;
+  }
+
+  return lines;
+}
+
+/**
+ * Build the SVG for a page's social card.
+ */
+function renderCardSvg({ title, description, trail }: CardContent): string {
+  const { sans, mono } = getFonts();
+  const width = CARD_WIDTH - PADDING * 2;
+  const parts: string[] = [];
+  let y = PADDING + 28;
+
+  // Breadcrumb trail
+  if (trail.length > 0) {
+    const [crumbs] = wrapText(mono, trail.join(' / '), 26, width, 1);
+    parts.push(textPaths(mono, crumbs, 26, PADDING, y, COLORS.textSubtle));
+    y += 72;
+  } else {
+    y += 24;
+  }
+
+  // Title
+  const titleSize = title.length > 60 ? 60 : 72;
+  for (const line of wrapText(sans, title, titleSize, width, 3)) {
+    y += titleSize * 0.9;
+    parts.push(textPaths(sans, line, titleSize, PADDING, y, COLORS.text));
+    y += titleSize * 0.3;
+  }
+
+  // Description
+  if (description) {
+    y += 24;
+    for (const line of wrapText(sans, description, 34, width, 3)) {
+      y += 34;
+      parts.push(textPaths(sans, line, 34, PADDING, y, COLORS.textMuted));
+      y += 14;
+    }
+  }
+
+  // Footer: site name and host
+  const footerY = CARD_HEIGHT - PADDING + 10;
+  const host = new URL(import.meta.env.SITE ?? 'https://example.com').host;
+  parts.push(textPaths(sans, config.site.name, 30, PADDING, footerY, COLORS.accent));
+  parts.push(textPaths(mono, host, 24, CARD_WIDTH - PADDING - textWidth(mono, host, 24), footerY, COLORS.textSubtle));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}">
+  <title>${escapeXml(title)}</title>
+  <rect width="100%" height="100%" fill="${COLORS.bg}" />
+  <rect width="100%" height="12" fill="${COLORS.accent}" />
+  <rect y="${footerY - 56}" width="100%" height="${CARD_HEIGHT - footerY + 56}" fill="${COLORS.bgSubtle}" />
+  <rect x="0" y="${footerY - 56}" width="100%" height="1" fill="${COLORS.border}" />
+  ${parts.join('\n  ')}
+</svg>`;
+}
+
+/**
+ * Render a page's social card as PNG.
+ */
+export async function renderCardPng(content: CardContent): Promise<Uint8Array<ArrayBuffer>> {
+  const png = await sharp(new TextEncoder().encode(renderCardSvg(content))).png().toBuffer();
+  // A Buffer may view a shared pool; a copy is backed by its own ArrayBuffer, as Response bodies need
+  return new Uint8Array(png);
+}
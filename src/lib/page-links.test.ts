@@ -0,0 +1,90 @@
+import { describe, expect, mock, test } from 'bun:test';
+
+// Link extraction only parses; rendering (for anchors) isn't exercised here
+mock.module('astro:content', () => ({ getCollection: async () => [], render: async () => ({ headings: [] }) }));
+const { extractLinks } = await import('./page-links');
+
+const hrefs = (source: string, options?: { mdx?: boolean }) => extractLinks(source, options).map(link => link.href);
+
+describe('extractLinks', () => {
+  test('reads inline links with titles and anchors', () => {
+    expect(extractLinks('See [the graph](/graph#legend "Legend").')).toMatchObject([
+      { href: '/graph#legend', text: 'the graph', title: 'Legend', line: 1 },
+    ]);
+  });
+
+  test('resolves reference-style links to their definitions', () => {
+    const source = [
+      'Read [the post][post] and [the post] again.',
+      '',
+      '[post]: /blog/first "First post"',
+      '[the post]: /blog/first#end',
+    ].join('\n');
+
+    expect(extractLinks(source)).toMatchObject([
+      { href: '/blog/first', text: 'the post', title: 'First post' },
+      { href: '/blog/first#end', text: 'the post' },
+    ]);
+  });
+
+  test('skips references without a definition', () => {
+    expect(hrefs('A [dangling][nowhere] reference.')).toEqual([]);
+  });
+
+  test('reads links inside JSX and href attributes of JSX elements', () => {
+    const source = [
+      '<Aside>',
+      '  See [inside](/inside) too.',
+      '</Aside>',
+      '',
+      'A <Card href="/card">card</Card> inline.',
+    ].join('\n');
+
+    expect(extractLinks(source)).toMatchObject([
+      { href: '/inside', text: 'inside', line: 2 },
+      { href: '/card', text: 'card', line: 5 },
+    ]);
+  });
+
+  test('resolves wiki-links, with labels and anchors', () => {
+    expect(extractLinks('[[me]], [[blog/first|the first post]], [[graph#legend]] and [[#intro]]')).toMatchObject([
+      { href: '/me', text: 'me' },
+      { href: '/blog/first', text: 'the first post' },
+      { href: '/graph#legend', text: 'graph#legend' },
+      { href: '#intro', text: '#intro' },
+    ]);
+  });
+
+  test('keeps the relation of typed wiki-links', () => {
+    const [typed, plain] = extractLinks('Overlaps po::[[projects/trail|Trail]], unlike [[me]].');
+
+    expect(typed).toMatchObject({ href: '/projects/trail', text: 'Trail', relation: 'po' });
+    expect(plain.relation).toBeUndefined();
+  });
+
+  test('lowercases relation types', () => {
+    expect(extractLinks('NTPP::[[blog]]')[0].relation).toBe('ntpp');
+  });
+
+  test('leaves wiki-links in code alone', () => {
+    expect(hrefs('`[[me]]`\n\n```\npo::[[blog]]\n```')).toEqual([]);
+  });
+
+  test('counts lines from where the document starts in its file', () => {
+    const source = 'First paragraph.\n\nSecond, with [a link](/a)\nand [[b]] on the next line.';
+
+    expect(extractLinks(source).map(link => link.line)).toEqual([3, 4]);
+    expect(extractLinks(source, { line: 10 }).map(link => link.line)).toEqual([12, 13]);
+  });
+
+  test('records the heading and text around each link', () => {
+    const [link] = extractLinks('# Notes\n\n## Sources\n\nMostly from [the docs](/docs), abridged.');
+
+    expect(link.section).toEqual({ text: 'Sources', occurrence: 0 });
+    expect(link.context).toEqual({ before: 'Mostly from ', text: 'the docs', after: ', abridged.' });
+  });
+
+  test('parses plain Markdown without JSX', () => {
+    expect(hrefs('A <b>bold</b> [link](/x) and [[y]].', { mdx: false })).toEqual(['/x', '/y']);
+  });
+});
@@ -0,0 +1,274 @@
+import { render, type CollectionEntry } from 'astro:content';
+import type { MarkdownHeading } from 'astro';
+import type { Nodes, Root } from 'mdast';
+import { definitions } from 'mdast-util-definitions';
+import { toString } from 'mdast-util-to-string';
+import remarkGfm from 'remark-gfm';
+import remarkMdx from 'remark-mdx';
+import remarkParse from 'remark-parse';
+import { unified } from 'unified';
+import { visitParents } from 'unist-util-visit-parents';
+import { lineAt, readSource } from './diagnostics';
+import { remarkWikilinks } from './wikilinks';
+
+/*
+ * Links in page content, read from a syntax tree parsed like the one pages are
+ * rendered from: inline, reference-style and wiki-links, Markdown links inside
+ * JSX, and `href` attributes of JSX elements.
+ */
+
+export interface PageLink {
+  href: string;
+  text: string;
+  /** Link title, e.g. `[text](href "title")`. */
+  title?: string;
+  /** 1-based line within the page's source file. */
+  line?: number;
+  /** Relation type of a typed wiki-link, e.g. `po` for `po::[[page]]`. */
+  relation?: string;
+  /** Heading of the section the link is in (see `resolveSection`). */
+  section?: SourceHeading;
+  /** Text around the link, from the paragraph (or heading, or table cell) it is in. */
+  context?: Snippet;
+}
+
+/** Plain text around a link; `text` is the link's own. */
+export interface Snippet {
+  before: string;
+  text: string;
+  after: string;
+}
+
+/** A heading in a page's source; `occurrence` counts earlier headings with the same text. */
+export interface SourceHeading {
+  text: string;
+  occurrence: number;
+}
+
+/** A section of a rendered page. */
+export interface Section {
+  slug: string;
+  text: string;
+}
+
+interface ParsedDocument {
+  links: PageLink[];
+  /** `id` attributes set on JSX elements. */
+  ids: string[];
+}
+
+/** Blocks a link's context is taken from. */
+const CONTEXT_BLOCKS = new Set(['paragraph', 'heading', 'tableCell']);
+/** Longest context kept whole; longer paragraphs are cut to the link's sentence. */
+const MAX_CONTEXT = 280;
+/** Characters kept on either side of the link when even its sentence is too long. */
+const MAX_SIDE = 120;
+
+/** Plain text of `node`, without MDX expressions (which are code). */
+function plainText(node: Nodes): string {
+  if (node.type === 'mdxTextExpression' || node.type === 'mdxFlowExpression') return '';
+  if (node.type === 'break') return ' ';
+  if ('value' in node) return node.value;
+  if ('children' in node) return node.children.map(child => plainText(child as Nodes)).join('');
+  return '';
+}
+
+/**
+ * The text of `block` around `link`: the whole block when short, else the
+ * sentence the link is in, cut to `MAX_SIDE` characters on either side.
+ */
+function contextOf(block: Nodes, link: Nodes): Snippet {
+  let before = '';
+  let after = '';
+  let found = false;
+
+  (function walk(node: Nodes) {
+    if (node === link) {
+      found = true;
+      return;
+    }
+    if ('children' in node) {
+      for (const child of node.children) walk(child as Nodes);
+    } else if (found) {
+      after += plainText(node);
+    } else {
+      before += plainText(node);
+    }
+  })(block);
+
+  const squash = (text: string) => text.replace(/\s+/g, ' ');
+  const text = squash(plainText(link)).trim();
+  before = squash(before).trimStart();
+  after = squash(after).trimEnd();
+
+  if (before.length + text.length + after.length > MAX_CONTEXT) {
+    // The sentence starts after the last sentence end before the link, and ends at the first after it
+    const start = before.search(/[.!?]\s+[^.!?]*$/);
+    if (start !== -1) before = before.slice(start).replace(/^[.!?]\s+/, '');
+    const end = after.search(/[.!?](\s|$)/);
+    if (end !== -1) after = after.slice(0, end + 1);
+
+    if (before.length > MAX_SIDE) before = `…${before.slice(-MAX_SIDE).replace(/^\S*\s/, '')}`;
+    if (after.length > MAX_SIDE) after = `${after.slice(0, MAX_SIDE).replace(/\s\S*$/, '')}…`;
+  }
+
+  return { before, text, after };
+}
+
+const mdxProcessor = unified().use(remarkParse).use(remarkGfm).use(remarkMdx).use(remarkWikilinks);
+const markdownProcessor = unified().use(remarkParse).use(remarkGfm).use(remarkWikilinks);
+
+function parseDocument(source: string, mdx: boolean, line: number): ParsedDocument {
+  const processor = mdx ? mdxProcessor : markdownProcessor;
+  const tree = processor.runSync(processor.parse(source)) as Root;
+  const definition = definitions(tree);
+  const links: PageLink[] = [];
+  const ids: string[] = [];
+  const lineOf = (node: Nodes) => node.position && node.position.start.line + line - 1;
+
+  const seen = new Map<string, number>();
+  let section: SourceHeading | undefined;
+
+  const contextIn = (node: Nodes, ancestors: Nodes[]) => {
+    const block = ancestors.findLast(a => CONTEXT_BLOCKS.has(a.type));
+    return block && contextOf(block, node);
+  };
+
+  // Preorder, so links come in document order, after their heading
+  visitParents(tree, (node: Nodes, ancestors: Nodes[]) => {
+    switch (node.type) {
+      case 'heading': {
+        const text = toString(node);
+        section = { text, occurrence: seen.get(text) ?? 0 };
+        seen.set(text, section.occurrence + 1);
+        break;
+      }
+      case 'link':
+        links.push({
+          href: node.url,
+          text: toString(node),
+          title: node.title ?? undefined,
+          line: lineOf(node),
+          relation: node.data?.relation,
+          section,
+          context: contextIn(node, ancestors),
+        });
+        break;
+      case 'linkReference': {
+        const target = definition(node.identifier);
+        if (!target) break;
+        links.push({
+          href: target.url,
+          text: toString(node),
+          title: target.title ?? undefined,
+          line: lineOf(node),
+          section,
+          context: contextIn(node, ancestors),
+        });
+        break;
+      }
+      case 'mdxJsxFlowElement':
+      case 'mdxJsxTextElement': {
+        const attribute = (name: string) => node.attributes.find(a => a.type === 'mdxJsxAttribute' && a.name === name)?.value;
+        const href = attribute('href');
+        const id = attribute('id');
+        if (typeof href === 'string') links.push({ href, text: toString(node), line: lineOf(node), section, context: contextIn(node, ancestors) });
+        if (typeof id === 'string') ids.push(id);
+        break;
+      }
+    }
+  });
+
+  return { links, ids };
+}
+
+/**
+ * Every link in a Markdown or MDX document, in document order. `line` is the
+ * line of the file the document starts at.
+ */
+export function extractLinks(source: string, { mdx = true, line = 1 } = {}): PageLink[] {
+  return parseDocument(source, mdx, line).links;
+}
+
+/** Parsed page bodies; pages share one relations graph build. */
+const cache = new Map<string, ParsedDocument>();
+
+function parsePage(entry: CollectionEntry<'pages'>): ParsedDocument {
+  const body = entry.body ?? '';
+  const key = `${entry.id}\n${body}`;
+  let parsed = cache.get(key);
+
+  if (!parsed) {
+    // The frontmatter precedes the (trimmed) body in the file
+    const source = entry.filePath ? readSource(entry.filePath) : '';
+    const at = body ? source.indexOf(body) : -1;
+    const line = at === -1 ? undefined : lineAt(source, at);
+    parsed = parseDocument(body, true, line ?? 1);
+    if (!line) parsed.links = parsed.links.map(link => ({ ...link, line: undefined }));
+    cache.set(key, parsed);
+  }
+
+  return parsed;
+}
+
+/**
+ * Links in the body of a page, with lines counted from the top of its file.
+ */
+export function pageLinks(entry: CollectionEntry<'pages'>): PageLink[] {
+  return parsePage(entry).links;
+}
+
+/**
+ * Links in the Markdown `description` of a page, on the line it is declared
+ * on. Relations are declared in the body only, so typed wiki-links here are
+ * plain links.
+ */
+export function descriptionLinks(entry: CollectionEntry<'pages'>): PageLink[] {
+  const { description } = entry.data;
+  if (!description) return [];
+
+  const source = entry.filePath ? readSource(entry.filePath) : '';
+  const match = /^description\s*:/m.exec(source);
+  const line = match ? lineAt(source, match.index) : undefined;
+  return extractLinks(description, { mdx: false }).map(link => ({ ...link, line, relation: undefined, section: undefined, context: undefined }));
+}
+
+/* ── Anchors ──────────────────────────────────────────────────────── */
+
+export interface PageAnchors {
+  /** Headings as rendered, with the slugs used as their `id`s. */
+  headings: MarkdownHeading[];
+  /** Every anchor on the page: heading slugs and `id`s set in JSX. */
+  ids: Set<string>;
+}
+
+const anchorCache = new Map<string, Promise<PageAnchors>>();
+
+/**
+ * The anchors links can point to on a page, from the headings `render`
+ * returns.
+ */
+export function pageAnchors(entry: CollectionEntry<'pages'>): Promise<PageAnchors> {
+  const key = `${entry.id}\n${entry.body ?? ''}`;
+  let anchors = anchorCache.get(key);
+
+  if (!anchors) {
+    anchors = render(entry).then(({ headings }) => ({
+      headings,
+      ids: new Set([...headings.map(h => h.slug), ...parsePage(entry).ids]),
+    }));
+    anchorCache.set(key, anchors);
+  }
+
+  return anchors;
+}
+
+/**
+ * The rendered section a source heading became: the heading with the same
+ * text, counting repeats, since repeated headings get distinct slugs.
+ */
+export function resolveSection(heading: SourceHeading | undefined, headings: MarkdownHeading[]): Section | undefined {
+  if (!heading) return undefined;
+  const match = headings.filter(h => h.text === heading.text)[heading.occurrence];
+  return match && { slug: match.slug, text: match.text };
+}
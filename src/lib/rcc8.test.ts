@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  ALL,
+  BASE_RELATIONS,
+  DC,
+  EC,
+  EQ,
+  NTPP,
+  NTPPI,
+  PO,
+  TPP,
+  TPPI,
+  closure,
+  compose,
+  converse,
+  maskRelations,
+  pairKey,
+  relationMask,
+} from './rcc8';
+
+const BASE_MASKS = BASE_RELATIONS.map(relationMask);
+
+describe('compose', () => {
+  test('EQ is the identity on both sides', () => {
+    for (const r of BASE_MASKS) {
+      expect(compose(EQ, r)).toBe(r);
+      expect(compose(r, EQ)).toBe(r);
+    }
+  });
+
+  test('the converse of a composition is the composition of the converses, reversed', () => {
+    for (const r1 of BASE_MASKS) {
+      for (const r2 of BASE_MASKS) {
+        expect(maskRelations(converse(compose(r1, r2)))).toEqual(maskRelations(compose(converse(r2), converse(r1))));
+      }
+    }
+  });
+
+  test('every base relation composed with its converse allows EQ', () => {
+    for (const r of BASE_MASKS) {
+      expect(compose(r, converse(r)) & EQ).toBe(EQ);
+    }
+  });
+
+  test('proper parthood is transitive', () => {
+    expect(compose(NTPP, NTPP)).toBe(NTPP);
+    expect(compose(TPP, NTPP)).toBe(NTPP);
+    expect(compose(NTPP, TPP)).toBe(NTPP);
+    expect(compose(TPP, TPP)).toBe(TPP | NTPP);
+    expect(compose(NTPPI, NTPPI)).toBe(NTPPI);
+  });
+
+  test('parts of disconnected regions are disconnected', () => {
+    expect(compose(NTPP, DC)).toBe(DC);
+    expect(compose(TPP, DC)).toBe(DC);
+    expect(compose(DC, NTPPI)).toBe(DC);
+    expect(compose(NTPP, EC)).toBe(DC);
+  });
+
+  test('disjunctions compose element-wise', () => {
+    expect(compose(TPP | NTPP, NTPP)).toBe(NTPP);
+    expect(compose(EQ | NTPP, DC)).toBe(DC);
+    expect(compose(ALL, EQ)).toBe(ALL);
+    expect(compose(DC, DC)).toBe(ALL);
+  });
+});
+
+describe('converse', () => {
+  test('swaps the inverse relations and keeps the symmetric ones', () => {
+    expect(converse(TPP)).toBe(TPPI);
+    expect(converse(NTPPI)).toBe(NTPP);
+    expect(converse(DC | EC | PO | EQ)).toBe(DC | EC | PO | EQ);
+  });
+
+  test('is an involution', () => {
+    for (let mask = 0; mask <= ALL; mask++) expect(converse(converse(mask))).toBe(mask);
+  });
+});
+
+describe('closure', () => {
+  const fact = (a: string, b: string, mask: number) => ({ a, b, mask, fact: `${a} ${maskRelations(mask).join('|')} ${b}` });
+
+  test('infers NTPP transitively, with the facts it follows from', () => {
+    const { constraints, conflicts } = closure([fact('a', 'b', NTPP), fact('b', 'c', NTPP), fact('c', 'd', NTPP)]);
+
+    expect(conflicts).toEqual([]);
+    expect(constraints.get(pairKey('a', 'c'))!.mask).toBe(NTPP);
+    expect(constraints.get(pairKey('a', 'd'))!.mask).toBe(NTPP);
+    expect(constraints.get(pairKey('d', 'a'))!.mask).toBe(NTPPI);
+    expect(constraints.get(pairKey('a', 'c'))!.because).toEqual(['a ntpp b', 'b ntpp c']);
+  });
+
+  test('propagates relations through EQ', () => {
+    const { constraints } = closure([fact('a', 'b', EQ), fact('b', 'c', NTPP), fact('d', 'b', DC)]);
+
+    expect(constraints.get(pairKey('a', 'c'))!.mask).toBe(NTPP);
+    expect(constraints.get(pairKey('a', 'd'))!.mask).toBe(DC);
+  });
+
+  test('reports NTPP and DC between the same pages', () => {
+    const { conflicts } = closure([fact('a', 'b', NTPP), fact('b', 'a', DC)]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ a: 'a', b: 'b', mask: 0 });
+    expect(conflicts[0].because).toEqual(['a ntpp b', 'b dc a']);
+  });
+
+  test('reports EQ and TPP between the same pages', () => {
+    const { conflicts } = closure([fact('a', 'b', EQ), fact('a', 'b', TPP)]);
+
+    expect(conflicts.map(c => [c.a, c.b])).toEqual([['a', 'b']]);
+  });
+
+  test('reports contradictions that only follow by composition', () => {
+    const { conflicts } = closure([fact('a', 'b', NTPP), fact('b', 'c', NTPP), fact('a', 'c', DC)]);
+
+    expect(conflicts.map(c => [c.a, c.b])).toEqual([['a', 'c']]);
+    expect(conflicts[0].because).toEqual(expect.arrayContaining(['a ntpp b', 'b ntpp c', 'a dc c']));
+  });
+
+  test('leaves consistent networks without conflicts', () => {
+    const { conflicts } = closure([fact('a', 'b', TPP), fact('b', 'c', PO), fact('c', 'd', EC)]);
+
+    expect(conflicts).toEqual([]);
+  });
+});
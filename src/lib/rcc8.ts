@@ -0,0 +1,166 @@
+/**
+ * RCC-8 relation algebra.
+ *
+ * Relations between two pages are represented as bitmasks over the eight base
+ * relations, so a mask denotes a disjunction ("a is DC or EC to b"). The empty
+ * mask means the constraints on a pair are contradictory.
+ */
+
+export type BaseRelation = 'dc' | 'ec' | 'po' | 'tpp' | 'ntpp' | 'tppi' | 'ntppi' | 'eq';
+
+export const BASE_RELATIONS: BaseRelation[] = ['dc', 'ec', 'po', 'tpp', 'ntpp', 'tppi', 'ntppi', 'eq'];
+
+export const DC = 1 << 0;
+export const EC = 1 << 1;
+export const PO = 1 << 2;
+export const TPP = 1 << 3;
+export const NTPP = 1 << 4;
+export const TPPI = 1 << 5;
+export const NTPPI = 1 << 6;
+export const EQ = 1 << 7;
+
+/** Universal relation — no constraint. */
+export const ALL = 0xff;
+
+const BIT: Record<BaseRelation, number> = {
+  dc: DC, ec: EC, po: PO, tpp: TPP, ntpp: NTPP, tppi: TPPI, ntppi: NTPPI, eq: EQ,
+};
+
+const CONVERSE: Record<BaseRelation, BaseRelation> = {
+  dc: 'dc', ec: 'ec', po: 'po', tpp: 'tppi', ntpp: 'ntppi', tppi: 'tpp', ntppi: 'ntpp', eq: 'eq',
+};
+
+/**
+ * Composition table: COMPOSITION[r1][r2] is the relation a→c given a r1 b and b r2 c.
+ * Rows and columns follow BASE_RELATIONS order.
+ */
+const COMPOSITION: number[][] = [
+  /* dc    */ [ALL, DC | EC | PO | TPP | NTPP, DC | EC | PO | TPP | NTPP, DC | EC | PO | TPP | NTPP, DC | EC | PO | TPP | NTPP, DC, DC, DC],
+  /* ec    */ [DC | EC | PO | TPPI | NTPPI, DC | EC | PO | TPP | TPPI | EQ, DC | EC | PO | TPP | NTPP, EC | PO | TPP | NTPP, PO | TPP | NTPP, DC | EC, DC, EC],
+  /* po    */ [DC | EC | PO | TPPI | NTPPI, DC | EC | PO | TPPI | NTPPI, ALL, PO | TPP | NTPP, PO | TPP | NTPP, DC | EC | PO | TPPI | NTPPI, DC | EC | PO | TPPI | NTPPI, PO],
+  /* tpp   */ [DC, DC | EC, DC | EC | PO | TPP | NTPP, TPP | NTPP, NTPP, DC | EC | PO | TPP | TPPI | EQ, DC | EC | PO | TPPI | NTPPI, TPP],
+  /* ntpp  */ [DC, DC, DC | EC | PO | TPP | NTPP, NTPP, NTPP, DC | EC | PO | TPP | NTPP, ALL, NTPP],
+  /* tppi  */ [DC | EC | PO | TPPI | NTPPI, EC | PO | TPPI | NTPPI, PO | TPPI | NTPPI, PO | TPP | TPPI | EQ, PO | TPP | NTPP, TPPI | NTPPI, NTPPI, TPPI],
+  /* ntppi */ [DC | EC | PO | TPPI | NTPPI, PO | TPPI | NTPPI, PO | TPPI | NTPPI, PO | TPPI | NTPPI, PO | TPP | NTPP | TPPI | NTPPI | EQ, NTPPI, NTPPI, NTPPI],
+  /* eq    */ [DC, EC, PO, TPP, NTPP, TPPI, NTPPI, EQ],
+];
+
+export function relationMask(rel: BaseRelation): number {
+  return BIT[rel];
+}
+
+/** Base relations contained in a mask. */
+export function maskRelations(mask: number): BaseRelation[] {
+  return BASE_RELATIONS.filter(r => mask & BIT[r]);
+}
+
+/** Converse of a (possibly disjunctive) relation: a R b ⇔ b converse(R) a. */
+export function converse(mask: number): number {
+  let result = 0;
+  for (const r of maskRelations(mask)) result |= BIT[CONVERSE[r]];
+  return result;
+}
+
+/** Composition of two (possibly disjunctive) relations. */
+export function compose(a: number, b: number): number {
+  if (a === ALL || b === ALL) return ALL;
+  let result = 0;
+  for (let i = 0; i < 8; i++) {
+    if (!(a & (1 << i))) continue;
+    for (let j = 0; j < 8; j++) {
+      if (b & (1 << j)) result |= COMPOSITION[i][j];
+    }
+    if (result === ALL) break;
+  }
+  return result;
+}
+
+/* ── Algebraic closure ────────────────────────────────────────────── */
+
+/** A constraint `a mask b`, justified by the facts in `because`. */
+export interface Constraint<F> {
+  a: string;
+  b: string;
+  mask: number;
+  because: F[];
+}
+
+export interface ClosureResult<F> {
+  /** Every constrained ordered pair, keyed by `pairKey(a, b)`. */
+  constraints: Map<string, Constraint<F>>;
+  /** Unordered pairs whose constraints became empty. */
+  conflicts: Constraint<F>[];
+}
+
+export function pairKey(a: string, b: string): string {
+  return `${a}\u0000${b}`;
+}
+
+/**
+ * Propagate constraints with the composition table until nothing narrows
+ * (path consistency). Each derived constraint remembers the facts it came from.
+ */
+export function closure<F>(facts: { a: string; b: string; mask: number; fact: F }[]): ClosureResult<F> {
+  const constraints = new Map<string, Constraint<F>>();
+  const neighbours = new Map<string, Set<string>>();
+  const conflicts = new Map<string, Constraint<F>>();
+  const queue: [string, string][] = [];
+
+  const get = (a: string, b: string): Constraint<F> =>
+    constraints.get(pairKey(a, b)) ?? { a, b, mask: ALL, because: [] };
+
+  function link(a: string, b: string) {
+    if (!neighbours.has(a)) neighbours.set(a, new Set());
+    neighbours.get(a)!.add(b);
+  }
+
+  /** Intersect the constraint on a→b with `mask`. Returns true if it narrowed. */
+  function refine(a: string, b: string, mask: number, because: F[]): boolean {
+    const current = get(a, b);
+    const next = current.mask & mask;
+    if (next === current.mask) return false;
+
+    const provenance = [...new Set([...current.because, ...because])];
+    constraints.set(pairKey(a, b), { a, b, mask: next, because: provenance });
+    constraints.set(pairKey(b, a), { a: b, b: a, mask: converse(next), because: provenance });
+    link(a, b);
+    link(b, a);
+
+    if (next === 0) {
+      const [x, y] = [a, b].sort();
+      if (!conflicts.has(pairKey(x, y))) conflicts.set(pairKey(x, y), { a: x, b: y, mask: 0, because: provenance });
+      return false;
+    }
+    return true;
+  }
+
+  for (const { a, b, mask, fact } of facts) {
+    if (refine(a, b, mask, [fact])) queue.push([a, b]);
+  }
+
+  while (queue.length > 0) {
+    const [i, j] = queue.shift()!;
+    const cij = get(i, j);
+    if (!cij.mask) continue;
+
+    for (const k of neighbours.get(j) ?? []) {
+      if (k === i) continue;
+      const cjk = get(j, k);
+      if (!cjk.mask) continue;
+      if (refine(i, k, compose(cij.mask, cjk.mask), [...cij.because, ...cjk.because])) {
+        queue.push([i, k]);
+      }
+    }
+
+    for (const k of neighbours.get(i) ?? []) {
+      if (k === j) continue;
+      const cki = get(k, i);
+      if (!cki.mask) continue;
+      if (refine(k, j, compose(cki.mask, cij.mask), [...cki.because, ...cij.because])) {
+        queue.push([k, j]);
+      }
+    }
+  }
+
+  return { constraints, conflicts: [...conflicts.values()] };
+}
@@ -1,4 +1,14 @@
 import { getCollection } from 'astro:content';
+import type { MarkdownHeading } from 'astro';
+import { config } from '@/config';
+import { checkConsistency } from './consistency';
+import { reportDiagnostics } from './diagnostics';
+import { resolveInternalHref } from './links';
+import { pageAnchors, pageLinks, resolveSection, type PageAnchors, type PageLink, type Section, type Snippet } from './page-links';
+import { tagSlug } from './tags';
+import { closure, maskRelations, relationMask, type BaseRelation } from './rcc8';
+import { relationDeclarations, validateAnchors, validateReferences } from './validation';
+import { isListed, isPublished } from './visibility';
 
 export interface PageRelations {
   // Topological (RCC-8)
@@ -13,93 +23,150 @@ export interface PageRelations {
   // Semantic
   next?: string;
   prev?: string;
-  // References (auto-extracted from markdown links)
+  // References (auto-extracted from links in the body)
   r: string[];       // pages this page links to
   ri: string[];      // pages that link to this page
+  // Every link behind r / ri, with the sections it is from and to
+  references: Reference[];
+  backlinks: Reference[];
+  // Implied by RCC-8 composition, disjoint from the declared lists above
+  inferred: InferredRelations;
 }
 
+/** A link from a page, or a section of it, to another page. */
+export interface Reference {
+  source: string;
+  /** Section of the source page the link is in. */
+  section?: Section;
+  target: string;
+  /** Anchor on the target page, without `#`. */
+  anchor?: string;
+  text: string;
+  /** Text around the link, for backlinks. */
+  context?: Snippet;
+}
+
+/** Topological keys of PageRelations. */
+export type TopologicalKey = 'ntpp' | 'nttpi' | 'tpp' | 'tppi' | 'po' | 'ec' | 'eq' | 'dc';
+
+export type InferredRelations = Record<TopologicalKey, string[]>;
+
+/** Whether a relation was written in frontmatter (or is its direct inverse) or derived. */
+export type RelationOrigin = 'declared' | 'inferred';
+
 export interface PageInfo {
   slug: string;
   title: string;
+  /** False for unlisted pages, which are left out of the graph and indexes. */
+  listed: boolean;
+  /** Slugs of the page's tags (see lib/tags.ts). */
+  tags: string[];
 }
 
 export type RelationsGraph = Map<string, PageRelations>;
 export type PageInfoMap = Map<string, PageInfo>;
 
-interface RawRelations {
-  ntpp?: string[];
-  tpp?: string[];
-  po?: string[];
-  ec?: string[];
-  eq?: string[];
-  dc?: string[];
-  next?: string;
-  prev?: string;
-}
-
 function emptyRelations(): PageRelations {
   return {
     ntpp: [], nttpi: [],
     tpp: [], tppi: [],
     po: [], ec: [], eq: [], dc: [],
     r: [], ri: [],
+    references: [], backlinks: [],
+    inferred: {
+      ntpp: [], nttpi: [],
+      tpp: [], tppi: [],
+      po: [], ec: [], eq: [], dc: [],
+    },
   };
 }
 
+/** PageRelations key holding each RCC-8 base relation. */
+const BASE_RELATION_KEYS: Record<BaseRelation, TopologicalKey> = {
+  dc: 'dc', ec: 'ec', po: 'po',
+  tpp: 'tpp', ntpp: 'ntpp',
+  tppi: 'tppi', ntppi: 'nttpi',
+  eq: 'eq',
+};
+
 function addUnique(arr: string[], value: string): void {
   if (!arr.includes(value)) arr.push(value);
 }
 
 /**
- * Convert a page slug to its URL path.
+ * A page's internal links to other pages, with the sections they are in
+ * (resolved against the page's rendered `headings`) and the text around them. Typed wiki-links declare
+ * relations rather than references, so they are left out.
  */
-function slugToPath(slug: string): string {
-  return slug === 'index' ? '/' : `/${slug}`;
-}
+function extractReferences(
+  links: PageLink[],
+  sourceSlug: string,
+  knownSlugs: Set<string>,
+  headings: MarkdownHeading[],
+): Reference[] {
+  const references: Reference[] = [];
+
+  for (const link of links) {
+    if (link.relation) continue;
+    const targetSlug = resolveInternalHref(link.href);
 
-/**
- * Convert a URL path back to a page slug.
- */
-function pathToSlug(path: string): string {
-  if (path === '/') return 'index';
-  return path.replace(/^\//, '');
+    // Only include if target exists and is not self-reference
+    if (targetSlug && knownSlugs.has(targetSlug) && targetSlug !== sourceSlug) {
+      references.push({
+        source: sourceSlug,
+        section: resolveSection(link.section, headings),
+        target: targetSlug,
+        anchor: link.href.split('#')[1] || undefined,
+        text: link.text,
+        context: link.context,
+      });
+    }
+  }
+
+  return references;
 }
 
 /**
- * Extract internal link target slugs from raw MDX body.
+ * Derive relations implied by composing the declared RCC-8 relations.
+ *
+ * Runs algebraic closure over the whole network and records every pair that
+ * narrows to exactly one base relation and isn't already declared, e.g.
+ * A NTPP B, B NTPP C -> A NTPP C, or A EQ B, B TPP C -> A TPP C.
  */
-function extractLinkSlugs(body: string, sourceSlug: string, knownSlugs: Set<string>): string[] {
-  const linkRegex = /\[([^\]]+)\]\(([^)]+)\)/g;
-  const slugs: string[] = [];
-  let match;
+function inferRelations(graph: RelationsGraph): void {
+  const facts: { a: string; b: string; mask: number; fact: string }[] = [];
 
-  while ((match = linkRegex.exec(body)) !== null) {
-    const href = match[2];
-
-    // Skip external links, anchors, mailto
-    if (href.startsWith('http') || href.startsWith('#') || href.startsWith('mailto:')) {
-      continue;
+  for (const [slug, rel] of graph) {
+    for (const key of ['ntpp', 'tpp', 'po', 'ec', 'eq', 'dc'] as const) {
+      for (const target of rel[key]) {
+        if (target === slug || !graph.has(target)) continue;
+        facts.push({ a: slug, b: target, mask: relationMask(key), fact: `${slug} ${key} ${target}` });
+      }
     }
+  }
 
-    // Normalize to path
-    let targetPath = href;
-    if (targetPath.startsWith('./')) targetPath = targetPath.slice(1);
-    if (!targetPath.startsWith('/')) targetPath = '/' + targetPath;
-    if (targetPath.endsWith('/') && targetPath !== '/') targetPath = targetPath.slice(0, -1);
-
-    const targetSlug = pathToSlug(targetPath);
+  for (const { a, b, mask } of closure(facts).constraints.values()) {
+    const bases = maskRelations(mask);
+    if (bases.length !== 1) continue;
 
-    // Only include if target exists and is not self-reference
-    if (knownSlugs.has(targetSlug) && targetSlug !== sourceSlug && !slugs.includes(targetSlug)) {
-      slugs.push(targetSlug);
-    }
+    const rel = graph.get(a);
+    const key = BASE_RELATION_KEYS[bases[0]];
+    if (!rel || rel[key].includes(b)) continue;
+    addUnique(rel.inferred[key], b);
   }
+}
 
-  return slugs;
+export interface RelationsData {
+  graph: RelationsGraph;
+  pages: PageInfoMap;
 }
 
+let cached: Promise<RelationsData> | null = null;
+
 /**
  * Build a relations graph from all pages with bidirectional inference.
+ * Relations are declared in frontmatter or inline with typed wiki-links
+ * (`po::[[page]]`, see lib/wikilinks.ts).
  *
  * Inference rules:
  * - A.ntpp includes B  -> B.nttpi includes A
@@ -110,38 +177,63 @@ function extractLinkSlugs(body: string, sourceSlug: string, knownSlugs: Set<stri
  * - A.dc includes B    -> B.dc includes A   (symmetric)
  * - A.next = B         -> B.prev = A
  * - A.prev = B         -> B.next = A
- * - Markdown link A->B -> A.r includes B, B.ri includes A
+ * - Link A->B         -> A.r includes B, B.ri includes A
+ *
+ * With `config.relations.inference`, relations implied by RCC-8 composition
+ * are added to each page's `inferred` lists.
+ *
+ * Only published pages (see lib/visibility.ts) are included; relations and
+ * links pointing at drafts or scheduled pages are dropped.
+ *
+ * Relation targets and links that don't resolve to a page, or to an anchor
+ * on it, are reported according to `config.validation.references`; contradictory declarations
+ * according to `config.validation.consistency`.
+ *
+ * The graph is built (and validated) once per build; every caller shares it,
+ * so callers must not modify it. The dev server rebuilds it on every call.
  */
-export async function buildRelationsGraph(): Promise<{
-  graph: RelationsGraph;
-  pages: PageInfoMap;
-}> {
+export function buildRelationsGraph(): Promise<RelationsData> {
+  // The dev server keeps modules across edits to content
+  if (import.meta.env.DEV) return build();
+  cached ??= build();
+  return cached;
+}
+
+async function build(): Promise<RelationsData> {
   const allPages = await getCollection('pages');
+  const publishedPages = allPages.filter(isPublished);
 
   const graph: RelationsGraph = new Map();
   const pages: PageInfoMap = new Map();
   const knownSlugs = new Set(allPages.map(p => p.id));
+  const publishedSlugs = new Set(publishedPages.map(p => p.id));
+
+  reportDiagnostics(validateReferences(allPages, knownSlugs, publishedSlugs), config.validation.references);
+  reportDiagnostics(checkConsistency(allPages, knownSlugs), config.validation.consistency);
+
+  // Rendered headings, for the sections links are in and the anchors they point to
+  const anchors = new Map<string, PageAnchors>();
+  for (const page of publishedPages) anchors.set(page.id, await pageAnchors(page));
+  reportDiagnostics(validateAnchors(publishedPages, anchors), config.validation.references);
 
   // First pass: collect explicit relations, page info, and extract links
-  for (const page of allPages) {
+  for (const page of publishedPages) {
     const slug = page.id;
-    const data = page.data as { title: string } & RawRelations;
+    const { title, tags = [] } = page.data;
 
-    pages.set(slug, { slug, title: data.title });
+    pages.set(slug, { slug, title, listed: isListed(page), tags: [...new Set(tags.map(tagSlug).filter(Boolean))] });
 
+    // Frontmatter relations come first, so they win over inline next/prev
     const rel = emptyRelations();
-    if (data.ntpp) rel.ntpp = [...data.ntpp];
-    if (data.tpp) rel.tpp = [...data.tpp];
-    if (data.po) rel.po = [...data.po];
-    if (data.ec) rel.ec = [...data.ec];
-    if (data.eq) rel.eq = [...data.eq];
-    if (data.dc) rel.dc = [...data.dc];
-    rel.next = data.next;
-    rel.prev = data.prev;
-
-    // Extract R (references) from markdown links
-    const body = page.body || '';
-    rel.r = extractLinkSlugs(body, slug, knownSlugs);
+    for (const { field, target } of relationDeclarations(page)) {
+      if (!publishedSlugs.has(target)) continue;
+      if (field === 'next' || field === 'prev') rel[field] ??= target;
+      else addUnique(rel[field], target);
+    }
+
+    // Extract R (references) from links in the body
+    rel.references = extractReferences(pageLinks(page), slug, publishedSlugs, anchors.get(slug)!.headings);
+    for (const { target } of rel.references) addUnique(rel.r, target);
 
     graph.set(slug, rel);
   }
@@ -201,8 +293,14 @@ export async function buildRelationsGraph(): Promise<{
       const targetRel = graph.get(target);
       if (targetRel) addUnique(targetRel.ri, slug);
     }
+    for (const reference of rel.references) {
+      graph.get(reference.target)?.backlinks.push(reference);
+    }
   }
 
+  // Third pass: composition
+  if (config.relations.inference) inferRelations(graph);
+
   return { graph, pages };
 }
 
@@ -234,12 +332,61 @@ export function getBreadcrumbs(
   return breadcrumbs;
 }
 
+/**
+ * Get the pages that are proper parts (NTPPi/TPPi) of `root`.
+ * With `transitive`, parts of parts are included too.
+ */
+export function getProperParts(
+  root: string,
+  graph: RelationsGraph,
+  transitive = false
+): string[] {
+  const parts: string[] = [];
+  const queue = [root];
+  const visited = new Set([root]);
+
+  while (queue.length > 0) {
+    const rel = graph.get(queue.shift()!);
+    if (!rel) continue;
+
+    for (const part of [...rel.nttpi, ...rel.tppi]) {
+      if (visited.has(part)) continue;
+      visited.add(part);
+      parts.push(part);
+      if (transitive) queue.push(part);
+    }
+  }
+
+  return parts;
+}
+
 /**
  * Get resolved relations for a specific page.
+ * With `pages`, unlisted pages are left out of a listed page's relations,
+ * so they only surface where they are linked explicitly.
  */
 export function getPageRelations(
   slug: string,
-  graph: RelationsGraph
+  graph: RelationsGraph,
+  pages?: PageInfoMap
 ): PageRelations | undefined {
-  return graph.get(slug);
+  const rel = graph.get(slug);
+  if (!rel || !pages || pages.get(slug)?.listed === false) return rel;
+
+  const listed = (targets: string[]) => targets.filter(t => pages.get(t)?.listed !== false);
+  const listedOne = (target?: string) => (target && pages.get(target)?.listed !== false ? target : undefined);
+  const inferred = Object.fromEntries(
+    Object.entries(rel.inferred).map(([key, targets]) => [key, listed(targets)])
+  ) as InferredRelations;
+
+  return {
+    ntpp: listed(rel.ntpp), nttpi: listed(rel.nttpi),
+    tpp: listed(rel.tpp), tppi: listed(rel.tppi),
+    po: listed(rel.po), ec: listed(rel.ec), eq: listed(rel.eq), dc: listed(rel.dc),
+    next: listedOne(rel.next), prev: listedOne(rel.prev),
+    r: listed(rel.r), ri: listed(rel.ri),
+    references: rel.references.filter(ref => pages.get(ref.target)?.listed !== false),
+    backlinks: rel.backlinks.filter(ref => pages.get(ref.source)?.listed !== false),
+    inferred,
+  };
 }
@@ -0,0 +1,25 @@
+import { analyzeGraph } from './graph-analytics';
+import { buildGraphData, type GraphData } from './graph-data';
+import { layoutGraph } from './graph-layout';
+import { buildRelationsGraph } from './relations';
+
+let cached: Promise<GraphData> | null = null;
+
+/**
+ * The graph of the whole site, analysed (see lib/graph-analytics.ts) and laid
+ * out with the default layout, as shown on /graph and in its exports.
+ *
+ * Analysis and layout run once per build and every caller shares the result,
+ * so callers must not modify it. The dev server rebuilds it on every call.
+ */
+export function buildSiteGraph(): Promise<GraphData> {
+  if (import.meta.env.DEV) return build();
+  cached ??= build();
+  return cached;
+}
+
+async function build(): Promise<GraphData> {
+  const { graph, pages } = await buildRelationsGraph();
+  // Precomputed so the graph opens in the same, settled layout on every visit
+  return layoutGraph(analyzeGraph(buildGraphData(graph, pages)));
+}
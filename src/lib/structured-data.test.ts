@@ -0,0 +1,173 @@
+import { describe, expect, test } from 'bun:test';
+import type { PageInfo, PageInfoMap, PageRelations } from './relations';
+import { buildStructuredData, validateStructuredData, type StructuredDataInput } from './structured-data';
+
+const site = new URL('https://home.theor.net');
+const created = new Date('2026-01-18T00:00:00Z');
+const modified = new Date('2026-02-01T00:00:00Z');
+
+const info = (slug: string, title: string): PageInfo => ({ slug, title, listed: true, tags: [] });
+const pages: PageInfoMap = new Map([
+  info('index', 'Welcome'),
+  info('projects', 'Projects'),
+  info('projects/trail', 'Trail'),
+  info('blog', 'Blog'),
+  info('blog/first', 'First post'),
+  info('me', 'Me'),
+].map(page => [page.slug, page]));
+
+function relations(overrides: Partial<PageRelations> = {}): PageRelations {
+  const empty = { ntpp: [], nttpi: [], tpp: [], tppi: [], po: [], ec: [], eq: [], dc: [] };
+  return { ...empty, r: [], ri: [], references: [], backlinks: [], inferred: { ...empty }, ...overrides };
+}
+
+function build(input: Partial<StructuredDataInput> & { slug: string }) {
+  const document = buildStructuredData({
+    title: pages.get(input.slug)?.title ?? input.slug,
+    created,
+    breadcrumbs: [],
+    pages,
+    ...input,
+  }, site);
+  return { document, page: document['@graph'][0] };
+}
+
+describe('buildStructuredData', () => {
+  test('an article cites the pages it links to and has a breadcrumb trail', () => {
+    const { document, page } = build({
+      slug: 'blog/first',
+      description: 'The first post',
+      modified,
+      image: 'https://home.theor.net/og/blog/first.png',
+      breadcrumbs: [pages.get('index')!, pages.get('blog')!, pages.get('blog/first')!],
+      relations: relations({ ntpp: ['blog'], r: ['me'] }),
+    });
+
+    expect(page).toMatchObject({
+      '@type': 'Article',
+      '@id': 'https://home.theor.net/blog/first',
+      url: 'https://home.theor.net/blog/first',
+      name: 'First post',
+      headline: 'First post',
+      description: 'The first post',
+      datePublished: '2026-01-18T00:00:00.000Z',
+      dateModified: '2026-02-01T00:00:00.000Z',
+      author: { '@type': 'Person' },
+      isPartOf: [{ '@type': 'WebPage', '@id': 'https://home.theor.net/blog', name: 'Blog' }],
+      citation: [{ '@type': 'WebPage', '@id': 'https://home.theor.net/me', name: 'Me' }],
+      breadcrumb: { '@id': 'https://home.theor.net/blog/first#breadcrumb' },
+    });
+    expect(document['@graph'][1]).toEqual({
+      '@type': 'BreadcrumbList',
+      '@id': 'https://home.theor.net/blog/first#breadcrumb',
+      itemListElement: [
+        { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://home.theor.net/' },
+        { '@type': 'ListItem', position: 2, name: 'Blog', item: 'https://home.theor.net/blog' },
+        { '@type': 'ListItem', position: 3, name: 'First post', item: 'https://home.theor.net/blog/first' },
+      ],
+    });
+    expect(validateStructuredData(document, 'blog/first')).toEqual([]);
+  });
+
+  test('the home page is a WebPage without a breadcrumb trail', () => {
+    const { document, page } = build({
+      slug: 'index',
+      breadcrumbs: [pages.get('index')!],
+      relations: relations({ tppi: ['projects', 'blog'], r: ['me'] }),
+    });
+
+    expect(page['@type']).toBe('WebPage');
+    expect(page['@id']).toBe('https://home.theor.net/');
+    expect(page.headline).toBeUndefined();
+    expect(page.breadcrumb).toBeUndefined();
+    expect(page.mentions).toHaveLength(1);
+    expect(page.citation).toBeUndefined();
+    expect(page.hasPart).toHaveLength(2);
+    expect(document['@graph']).toHaveLength(1);
+    expect(validateStructuredData(document, 'index')).toEqual([]);
+  });
+
+  test('a hub with parts is a WebPage', () => {
+    const { document, page } = build({
+      slug: 'projects',
+      breadcrumbs: [pages.get('index')!, pages.get('projects')!],
+      relations: relations({ tpp: ['index'], nttpi: ['projects/trail'] }),
+    });
+
+    expect(page['@type']).toBe('WebPage');
+    expect(page.hasPart).toEqual([
+      { '@type': 'WebPage', '@id': 'https://home.theor.net/projects/trail', url: 'https://home.theor.net/projects/trail', name: 'Trail' },
+    ]);
+    expect(validateStructuredData(document, 'projects')).toEqual([]);
+  });
+
+  test('a project is SoftwareSourceCode with its repository and status', () => {
+    const { document, page } = build({
+      slug: 'projects/trail',
+      breadcrumbs: [pages.get('index')!, pages.get('projects')!, pages.get('projects/trail')!],
+      relations: relations({ ntpp: ['projects'] }),
+      project: { url: 'https://github.com/theoryzhenkov/trail', status: 'active' },
+    });
+
+    expect(page).toMatchObject({
+      '@type': 'SoftwareSourceCode',
+      name: 'Trail',
+      headline: 'Trail',
+      codeRepository: 'https://github.com/theoryzhenkov/trail',
+      creativeWorkStatus: 'active',
+    });
+    expect(validateStructuredData(document, 'projects/trail')).toEqual([]);
+  });
+
+  test('a page without relations is an Article without relation properties', () => {
+    const { document, page } = build({ slug: 'me' });
+
+    expect(page['@type']).toBe('Article');
+    expect(page.dateModified).toBe(page.datePublished);
+    expect(page).not.toHaveProperty('isPartOf');
+    expect(page).not.toHaveProperty('citation');
+    expect(validateStructuredData(document, 'me')).toEqual([]);
+  });
+});
+
+describe('validateStructuredData', () => {
+  test('reports missing properties, relative URLs, bad dates and breadcrumb gaps', () => {
+    const diagnostics = validateStructuredData({
+      '@graph': [
+        { '@type': 'Article', '@id': '/me', url: '/me', datePublished: 'yesterday', dateModified: '2026-01-18', author: { '@type': 'Person' } },
+        {
+          '@type': 'BreadcrumbList',
+          '@id': 'https://home.theor.net/me#breadcrumb',
+          itemListElement: [{ '@type': 'ListItem', position: 2, name: 'Home', item: 'https://home.theor.net/' }],
+        },
+      ],
+    }, 'me');
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      'JSON-LD for "me": @graph[0] (Article) is missing headline',
+      'JSON-LD for "me": @graph[0] has a non-absolute @id: "/me"',
+      'JSON-LD for "me": @graph[0] has a non-absolute url: "/me"',
+      'JSON-LD for "me": @graph[0] has an invalid datePublished: "yesterday"',
+      'JSON-LD for "me": @graph[0].author (Person) is missing name',
+      'JSON-LD for "me": @graph[1].itemListElement[0] has position 2, expected 1',
+    ]);
+    expect(diagnostics.every(d => d.code === 'structured-data')).toBe(true);
+  });
+
+  test('reports unexpected types and malformed page references', () => {
+    const diagnostics = validateStructuredData({
+      '@graph': [
+        { '@type': 'Recipe' },
+        {
+          '@type': 'WebPage', '@id': 'https://home.theor.net/', url: 'https://home.theor.net/', name: 'Welcome',
+          datePublished: '2026-01-18', dateModified: '2026-01-18', hasPart: [{ '@id': 'projects' }],
+        },
+      ],
+    }, 'index');
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      'JSON-LD for "index": @graph[0] has unexpected @type "Recipe"',
+      'JSON-LD for "index": @graph[1].hasPart[0] is not a page reference with @id and name',
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { config } from '@/config';
+import type { Diagnostic } from './diagnostics';
+import { slugToPath } from './links';
+import type { PageInfo, PageInfoMap, PageRelations } from './relations';
+
+/*
+ * Schema.org JSON-LD for each page, derived from its frontmatter and relations:
+ * containment (NTPP/TPP and inverses) becomes isPartOf/hasPart, the breadcrumb
+ * trail a BreadcrumbList, and outgoing links (r) citation or mentions.
+ */
+
+export interface JsonLdNode {
+  '@type': string;
+  '@id'?: string;
+  [property: string]: unknown;
+}
+
+export interface StructuredDataInput {
+  slug: string;
+  title: string;
+  /** Plain-text description. */
+  description?: string;
+  created: Date;
+  modified?: Date;
+  /** Absolute URL of the page's social card. */
+  image?: string;
+  breadcrumbs: PageInfo[];
+  relations?: PageRelations;
+  pages?: PageInfoMap;
+  /** Repository URL and status of a project page. */
+  project?: { url: string; status: string };
+}
+
+/** Absolute URL of a page, without trailing slash (matching the canonical URL). */
+function pageUrl(slug: string, site: URL): string {
+  return new URL(slug === 'index' ? '/' : slugToPath(slug), site).href;
+}
+
+function pageRefs(slugs: string[], site: URL, pages?: PageInfoMap): JsonLdNode[] {
+  return [...new Set(slugs)].map((slug) => {
+    const url = pageUrl(slug, site);
+    return { '@type': 'WebPage', '@id': url, url, name: pages?.get(slug)?.title ?? slug };
+  });
+}
+
+/**
+ * Pick the schema.org type: projects are SoftwareSourceCode, the home page,
+ * feed sections and other hubs with parts are WebPages, everything else is an Article.
+ */
+function pageType({ slug, relations, project }: StructuredDataInput): string {
+  if (project) return 'SoftwareSourceCode';
+  if (slug === 'index' || config.feeds.sections.includes(slug)) return 'WebPage';
+  if (relations && relations.nttpi.length + relations.tppi.length > 0) return 'WebPage';
+  return 'Article';
+}
+
+/**
+ * Build the JSON-LD document for a page: the page itself and, below the
+ * home page, its breadcrumb trail.
+ */
+export function buildStructuredData(input: StructuredDataInput, site: URL): { '@context': string; '@graph': JsonLdNode[] } {
+  const { slug, title, description, created, modified, image, breadcrumbs, relations, pages, project } = input;
+  const url = pageUrl(slug, site);
+  const type = pageType(input);
+
+  const page: JsonLdNode = {
+    '@type': type,
+    '@id': url,
+    url,
+    name: title,
+    ...(type !== 'WebPage' && { headline: title }),
+    description,
+    inLanguage: 'en',
+    datePublished: created.toISOString(),
+    dateModified: (modified ?? created).toISOString(),
+    author: { '@type': 'Person', name: config.site.author },
+    image,
+  };
+
+  if (project) {
+    page.codeRepository = project.url;
+    page.creativeWorkStatus = project.status;
+  }
+
+  if (relations) {
+    const parents = [...relations.ntpp, ...relations.tpp];
+    const parts = [...relations.nttpi, ...relations.tppi];
+    if (parents.length > 0) page.isPartOf = pageRefs(parents, site, pages);
+    if (parts.length > 0) page.hasPart = pageRefs(parts, site, pages);
+    // Articles cite the pages they link to; hub pages merely mention them
+    if (relations.r.length > 0) page[type === 'WebPage' ? 'mentions' : 'citation'] = pageRefs(relations.r, site, pages);
+  }
+
+  const graph = [page];
+
+  if (breadcrumbs.length > 1) {
+    page.breadcrumb = { '@id': `${url}#breadcrumb` };
+    graph.push({
+      '@type': 'BreadcrumbList',
+      '@id': `${url}#breadcrumb`,
+      itemListElement: breadcrumbs.map((crumb, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: crumb.slug === 'index' ? 'Home' : crumb.title,
+        item: pageUrl(crumb.slug, site),
+      })),
+    });
+  }
+
+  return { '@context': 'https://schema.org', '@graph': graph };
+}
+
+/* ── Validation ───────────────────────────────────────────────────── */
+
+/** Properties each emitted type must carry. */
+const REQUIRED: Record<string, string[]> = {
+  Article: ['@id', 'url', 'headline', 'datePublished', 'dateModified', 'author'],
+  WebPage: ['@id', 'url', 'name', 'datePublished', 'dateModified'],
+  SoftwareSourceCode: ['@id', 'url', 'name', 'datePublished', 'codeRepository', 'creativeWorkStatus'],
+  BreadcrumbList: ['@id', 'itemListElement'],
+  ListItem: ['position', 'name', 'item'],
+  Person: ['name'],
+};
+
+const URL_PROPERTIES = ['@id', 'url', 'item', 'image', 'codeRepository'];
+const DATE_PROPERTIES = ['datePublished', 'dateModified'];
+/** Properties holding nodes that are checked against REQUIRED too. */
+const NESTED_PROPERTIES = ['author', 'itemListElement'];
+/** Properties holding references to other pages, which need only an @id and name. */
+const REFERENCE_PROPERTIES = ['isPartOf', 'hasPart', 'citation', 'mentions'];
+
+function isAbsoluteUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isNode(value: unknown): value is JsonLdNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a JSON-LD document against the shape of the types above: required
+ * properties, absolute URLs, ISO dates and consecutive breadcrumb positions.
+ */
+export function validateStructuredData(
+  document: { '@graph': JsonLdNode[] },
+  slug: string,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (path: string, problem: string) => diagnostics.push({
+    code: 'structured-data',
+    message: `JSON-LD for "${slug}": ${path} ${problem}`,
+  });
+
+  function check(node: JsonLdNode, path: string) {
+    const required = REQUIRED[node['@type']];
+    if (!required) {
+      if (node['@type']) report(path, `has unexpected @type "${node['@type']}"`);
+      return;
+    }
+
+    for (const property of required) {
+      const value = node[property];
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+        report(path, `(${node['@type']}) is missing ${property}`);
+      }
+    }
+    for (const property of URL_PROPERTIES) {
+      if (node[property] !== undefined && !isAbsoluteUrl(node[property])) {
+        report(path, `has a non-absolute ${property}: ${JSON.stringify(node[property])}`);
+      }
+    }
+    for (const property of DATE_PROPERTIES) {
+      const value = node[property];
+      if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+        report(path, `has an invalid ${property}: ${JSON.stringify(value)}`);
+      }
+    }
+
+    if (node['@type'] === 'BreadcrumbList' && Array.isArray(node.itemListElement)) {
+      node.itemListElement.forEach((item, index) => {
+        if (isNode(item) && item.position !== index + 1) {
+          report(`${path}.itemListElement[${index}]`, `has position ${String(item.position)}, expected ${index + 1}`);
+        }
+      });
+    }
+
+    for (const property of [...NESTED_PROPERTIES, ...REFERENCE_PROPERTIES]) {
+      const value = node[property];
+      if (value === undefined) continue;
+      const children = Array.isArray(value) ? value : [value];
+      children.forEach((child, index) => {
+        const childPath = Array.isArray(value) ? `${path}.${property}[${index}]` : `${path}.${property}`;
+        if (!isNode(child)) report(childPath, 'is not a node');
+        else if (NESTED_PROPERTIES.includes(property)) check(child, childPath);
+        else if (!isAbsoluteUrl(child['@id']) || !child.name) report(childPath, 'is not a page reference with @id and name');
+      });
+    }
+  }
+
+  document['@graph'].forEach((node, index) => check(node, `@graph[${index}]`));
+  return diagnostics;
+}
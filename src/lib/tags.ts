@@ -0,0 +1,50 @@
+import { getCollection, type CollectionEntry } from 'astro:content';
+import { isListed } from './visibility';
+
+export interface Tag {
+  slug: string;
+  /** The tag as first written in frontmatter. */
+  name: string;
+  /** Listed pages with the tag, newest first. */
+  pages: CollectionEntry<'pages'>[];
+}
+
+/**
+ * URL segment for a tag. Tags differing only in case or punctuation share
+ * one, so `Machine Learning` and `machine-learning` are the same tag.
+ */
+export function tagSlug(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Path of a tag's page. */
+export function tagPath(tag: string): string {
+  return `/tags/${tagSlug(tag)}`;
+}
+
+/**
+ * Every tag of a listed page, sorted by name.
+ */
+export async function getTags(): Promise<Tag[]> {
+  const pages = await getCollection('pages', isListed);
+  const tags = new Map<string, Tag>();
+
+  for (const page of pages) {
+    for (const name of page.data.tags ?? []) {
+      const slug = tagSlug(name);
+      if (!slug) continue;
+      if (!tags.has(slug)) tags.set(slug, { slug, name, pages: [] });
+      const tag = tags.get(slug)!;
+      if (!tag.pages.includes(page)) tag.pages.push(page);
+    }
+  }
+
+  for (const tag of tags.values()) {
+    tag.pages.sort((a, b) => b.data.created.getTime() - a.data.created.getTime());
+  }
+  return [...tags.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,194 @@
+import type { CollectionEntry } from 'astro:content';
+import { resolveInternalHref } from './links';
+import { lineAt, readSource, type Diagnostic } from './diagnostics';
+import { descriptionLinks, pageLinks, type PageAnchors } from './page-links';
+import { tagSlug } from './tags';
+import { isListed } from './visibility';
+
+/** Routes served by src/pages rather than the pages collection. */
+export const STATIC_ROUTES = new Set(['graph', 'tags']);
+
+/** Frontmatter keys whose values are page slugs. */
+export const RELATION_FIELDS = ['ntpp', 'tpp', 'po', 'ec', 'eq', 'dc', 'next', 'prev'] as const;
+
+export type RelationField = typeof RELATION_FIELDS[number];
+
+export function isRelationField(value: string): value is RelationField {
+  return (RELATION_FIELDS as readonly string[]).includes(value);
+}
+
+/** A relation declared by a page, in frontmatter or with a typed wiki-link. */
+export interface RelationDeclaration {
+  field: RelationField;
+  target: string;
+  line?: number;
+  /** Declared in the body, e.g. `po::[[target]]`. */
+  inline: boolean;
+}
+
+/**
+ * Find the line of `target` declared under frontmatter key `field`.
+ */
+export function findRelationLine(source: string, field: RelationField, target: string): number | undefined {
+  const fieldMatch = new RegExp(`^${field}\\s*:`, 'm').exec(source);
+  if (!fieldMatch) return undefined;
+
+  const at = source.indexOf(target, fieldMatch.index + field.length);
+  return lineAt(source, at === -1 ? fieldMatch.index : at);
+}
+
+/**
+ * Relations a page declares: those in its frontmatter, then typed wiki-links
+ * in its body, whose targets are resolved like links (anchors are dropped).
+ */
+export function relationDeclarations(entry: CollectionEntry<'pages'>): RelationDeclaration[] {
+  const source = entry.filePath ? readSource(entry.filePath) : '';
+  const data = entry.data as Partial<Record<RelationField, string | string[]>>;
+  const declarations: RelationDeclaration[] = [];
+
+  for (const field of RELATION_FIELDS) {
+    const value = data[field];
+    if (!value) continue;
+    for (const target of Array.isArray(value) ? value : [value]) {
+      declarations.push({ field, target, line: findRelationLine(source, field, target), inline: false });
+    }
+  }
+
+  for (const link of pageLinks(entry)) {
+    const target = link.relation && resolveInternalHref(link.href);
+    if (!target || !isRelationField(link.relation!)) continue;
+    declarations.push({ field: link.relation as RelationField, target, line: link.line, inline: true });
+  }
+
+  return declarations;
+}
+
+/** A declaration as written, for messages. */
+function declared({ field, target, inline }: RelationDeclaration): string {
+  return inline ? `${field}::[[${target}]]` : `${field}: "${target}"`;
+}
+
+/**
+ * Collect relation targets and internal links that don't resolve to a known page,
+ * and those from published pages that point at unpublished ones (drafts or
+ * scheduled pages), which would 404 on the built site.
+ *
+ * Links are read from the body and from the Markdown `description`. Typed
+ * wiki-links are checked as relations, and reported if their type is unknown.
+ */
+export function validateReferences(
+  entries: CollectionEntry<'pages'>[],
+  knownSlugs: Set<string>,
+  publishedSlugs: Set<string> = knownSlugs,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  // Tag pages (/tags/<tag>) are generated for every tag in use
+  const tagRoutes = new Set(entries.filter(isListed).flatMap(e => (e.data.tags ?? []).map(tag => `tags/${tagSlug(tag)}`)));
+  const exists = (slug: string) => knownSlugs.has(slug) || STATIC_ROUTES.has(slug) || tagRoutes.has(slug);
+  const hidden = (slug: string) => knownSlugs.has(slug) && !publishedSlugs.has(slug);
+
+  for (const entry of entries) {
+    const checkHidden = publishedSlugs.has(entry.id);
+    const file = entry.filePath;
+
+    for (const d of relationDeclarations(entry)) {
+      if (checkHidden && hidden(d.target)) {
+        diagnostics.push({
+          code: 'unpublished-target',
+          message: `"${entry.id}" declares ${declared(d)}, which is not published`,
+          file,
+          line: d.line,
+        });
+        continue;
+      }
+      if (exists(d.target)) continue;
+      diagnostics.push({
+        code: 'unresolved-relation',
+        message: `"${entry.id}" declares ${declared(d)}, which is not a known page`,
+        file,
+        line: d.line,
+      });
+    }
+
+    for (const link of [...descriptionLinks(entry), ...pageLinks(entry)]) {
+      if (link.relation) {
+        if (isRelationField(link.relation)) continue;
+        diagnostics.push({
+          code: 'unknown-relation',
+          message: `"${entry.id}" links to "${link.href}" as ${link.relation}::, which is not a relation type (expected one of ${RELATION_FIELDS.join(', ')})`,
+          file,
+          line: link.line,
+        });
+        continue;
+      }
+
+      const target = resolveInternalHref(link.href);
+      if (target === null) continue;
+      if (checkHidden && hidden(target)) {
+        diagnostics.push({
+          code: 'unpublished-target',
+          message: `"${entry.id}" links to "${link.href}", which is not published`,
+          file,
+          line: link.line,
+        });
+        continue;
+      }
+      if (exists(target)) continue;
+      diagnostics.push({
+        code: 'broken-link',
+        message: `"${entry.id}" links to "${link.href}", which is not a known page`,
+        file,
+        line: link.line,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Collect links to `#anchors` that don't exist on the target page, i.e. that
+ * match neither a heading nor an element `id`. Links to the page itself
+ * (`#anchor`) are checked too; links to unknown pages are left to
+ * `validateReferences`.
+ */
+export function validateAnchors(
+  entries: CollectionEntry<'pages'>[],
+  anchors: Map<string, PageAnchors>,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const entry of entries) {
+    for (const link of [...descriptionLinks(entry), ...pageLinks(entry)]) {
+      const [path, anchor] = link.href.split('#');
+      if (!anchor) continue;
+
+      const target = path ? resolveInternalHref(link.href) : entry.id;
+      const ids = target === null ? undefined : anchors.get(target)?.ids;
+      if (!ids) continue;
+
+      let id: string;
+      try {
+        id = decodeURIComponent(anchor);
+      } catch {
+        diagnostics.push({
+          code: 'missing-anchor',
+          message: `"${entry.id}" links to "${link.href}", whose anchor is not validly percent-encoded`,
+          file: entry.filePath,
+          line: link.line,
+        });
+        continue;
+      }
+      if (ids.has(id)) continue;
+
+      diagnostics.push({
+        code: 'missing-anchor',
+        message: `"${entry.id}" links to "${link.href}", but "${target}" has no heading or element with id "${anchor}"`,
+        file: entry.filePath,
+        line: link.line,
+      });
+    }
+  }
+
+  return diagnostics;
+}
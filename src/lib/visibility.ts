@@ -0,0 +1,26 @@
+import type { CollectionEntry } from 'astro:content';
+
+/*
+ * Publication state from frontmatter:
+ * - `draft: true`     built only in dev
+ * - `publishAt: date` built only once the date has passed (at build time); always in dev
+ * - `unlisted: true`  built, but left out of the graph, indexes, feeds, search and listings
+ */
+
+const buildTime = new Date();
+
+/**
+ * Whether a page is built at all.
+ */
+export function isPublished(entry: CollectionEntry<'pages'>): boolean {
+  if (import.meta.env.DEV) return true;
+  const { draft, publishAt } = entry.data;
+  return !draft && (!publishAt || publishAt <= buildTime);
+}
+
+/**
+ * Whether a page is built and may be listed or indexed.
+ */
+export function isListed(entry: CollectionEntry<'pages'>): boolean {
+  return isPublished(entry) && !entry.data.unlisted;
+}
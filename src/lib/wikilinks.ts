@@ -0,0 +1,69 @@
+import type { Link, Root, Text } from 'mdast';
+import { findAndReplace, type RegExpMatchObject } from 'mdast-util-find-and-replace';
+import { slugToPath } from './links';
+
+/*
+ * Wiki-links in page bodies:
+ * - `[[slug]]`, `[[slug|label]]`, `[[slug#anchor]]` and `[[#anchor]]` link to a page (or section)
+ * - `po::[[slug]]` also declares a relation, like `po: [slug]` in frontmatter (Trail-style)
+ *
+ * This module is loaded by astro.config.ts, so it must not import `astro:content`.
+ */
+
+declare module 'mdast' {
+  interface LinkData {
+    /** Relation type of a typed wiki-link, e.g. `po` for `po::[[page]]`. */
+    relation?: string;
+  }
+}
+
+const WIKILINK = /(?:\b([a-z]+)::)?\[\[([^[\]|#]*)(#[^[\]|]*)?(?:\|([^[\]]+))?\]\]/gi;
+
+/**
+ * Position of `length` characters at `index` within a text node. Escapes and
+ * entities can shift the column, but the line is exact.
+ */
+function positionIn(node: Text, index: number, length: number): Link['position'] {
+  if (!node.position) return undefined;
+  const point = (at: number) => {
+    const before = node.value.slice(0, at).split('\n');
+    const line = node.position!.start.line + before.length - 1;
+    const column = before.length === 1 ? node.position!.start.column + at : before[before.length - 1].length + 1;
+    return { line, column };
+  };
+  return { start: point(index), end: point(index + length) };
+}
+
+function toLink(
+  match: string,
+  relation: string | undefined,
+  slug: string,
+  anchor: string | undefined,
+  label: string | undefined,
+  { index, stack }: RegExpMatchObject,
+): Link | false {
+  slug = slug.trim().replace(/^\/+|\/+$/g, '');
+  if (!slug && !anchor) return false;
+
+  const type = relation?.toLowerCase();
+  return {
+    type: 'link',
+    url: `${slug ? slugToPath(slug) : ''}${anchor ?? ''}`,
+    children: [{ type: 'text', value: label?.trim() || `${slug}${anchor ?? ''}` }],
+    position: positionIn(stack[stack.length - 1] as Text, index, match.length),
+    data: {
+      relation: type,
+      hProperties: { className: ['wikilink'], dataRelation: type },
+    },
+  };
+}
+
+/**
+ * Remark plugin turning wiki-links into links. Typed ones keep their relation
+ * in `data.relation` (see lib/page-links.ts) and `data-relation` in the HTML.
+ */
+export function remarkWikilinks() {
+  return (tree: Root) => {
+    findAndReplace(tree, [WIKILINK, toLink], { ignore: ['link', 'linkReference'] });
+  };
+}
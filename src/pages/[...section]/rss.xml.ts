@@ -0,0 +1,8 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { config } from '@/config';
+import { buildFeed, feedResponse } from '@/lib/feeds';
+
+export const getStaticPaths: GetStaticPaths = () =>
+  config.feeds.sections.map((section) => ({ params: { section } }));
+
+export const GET: APIRoute = async ({ params, site }) => feedResponse(await buildFeed(site!, params.section), 'rss');
@@ -0,0 +1,4 @@
+import type { APIRoute } from 'astro';
+import { buildFeed, feedResponse } from '@/lib/feeds';
+
+export const GET: APIRoute = async ({ site }) => feedResponse(await buildFeed(site!), 'atom');
@@ -0,0 +1,22 @@
+import type { APIRoute } from 'astro';
+import { buildExternalLinkIndex } from '@/lib/external-links';
+
+export const GET: APIRoute = async () => {
+  const links = await buildExternalLinkIndex();
+
+  const index: Record<string, {
+    domain: string;
+    title?: string;
+    description?: string;
+  }> = {};
+
+  for (const { url, domain, title, description } of links.values()) {
+    index[url] = { domain, title, description };
+  }
+
+  return new Response(JSON.stringify(index, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+};
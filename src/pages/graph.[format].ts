@@ -0,0 +1,17 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { GRAPH_EXPORTS, type GraphExportFormat } from '@/lib/graph-export';
+import { buildSiteGraph } from '@/lib/site-graph';
+
+// The format keys double as file extensions: /graph.graphml, /graph.dot, …
+export const getStaticPaths: GetStaticPaths = () =>
+  Object.keys(GRAPH_EXPORTS).map((format) => ({ params: { format } }));
+
+export const GET: APIRoute = async ({ params, site }) => {
+  const exporter = GRAPH_EXPORTS[params.format as GraphExportFormat];
+
+  return new Response(exporter.serialize(await buildSiteGraph(), site!), {
+    headers: {
+      'Content-Type': exporter.contentType,
+    },
+  });
+};
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { buildSiteGraph } from '@/lib/site-graph';
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify(await buildSiteGraph(), null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+};
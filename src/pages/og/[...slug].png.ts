@@ -0,0 +1,33 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection } from 'astro:content';
+import { mdxToPlainText } from '@/lib/excerpt';
+import { renderCardPng, type CardContent } from '@/lib/og-image';
+import { buildRelationsGraph, getBreadcrumbs } from '@/lib/relations';
+import { isPublished } from '@/lib/visibility';
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  const pages = await getCollection('pages', isPublished);
+  const { graph, pages: pageInfo } = await buildRelationsGraph();
+
+  return pages.map((page) => ({
+    params: { slug: page.id },
+    props: {
+      title: page.data.title,
+      description: page.data.description && mdxToPlainText(page.data.description),
+      // Ancestors only; the title is drawn separately
+      trail: page.id === 'index'
+        ? []
+        : getBreadcrumbs(page.id, graph, pageInfo).slice(0, -1).map((crumb) => crumb.title),
+    },
+  }));
+};
+
+export const GET: APIRoute<CardContent> = async ({ props }) => {
+  const png = await renderCardPng(props);
+
+  return new Response(png, {
+    headers: {
+      'Content-Type': 'image/png',
+    },
+  });
+};
@@ -1,22 +1,60 @@
 import type { APIRoute } from 'astro';
 import { getCollection } from 'astro:content';
+import { buildRelationsGraph, getPageRelations } from '@/lib/relations';
+import { plainTextExcerpt } from '@/lib/excerpt';
+import { isListed } from '@/lib/visibility';
+
+interface PopupRelations {
+  /** Titles of pages this one is a proper part of (NTPP/TPP). */
+  partOf: string[];
+  /** Number of proper parts (NTPPi/TPPi). */
+  parts: number;
+  /** Number of pages this page links to. */
+  references: number;
+  /** Number of pages linking here. */
+  backlinks: number;
+}
+
+const toDate = (date?: Date) => date?.toISOString().slice(0, 10);
 
 export const GET: APIRoute = async () => {
-  const pages = await getCollection('pages');
-  
+  const pages = await getCollection('pages', isListed);
+  const { graph, pages: pageInfo } = await buildRelationsGraph();
+
   const index: Record<string, {
     title: string;
     description?: string;
+    excerpt?: string;
+    status?: string;
+    tags?: string[];
+    created: string;
+    modified?: string;
+    relations?: PopupRelations;
   }> = {};
-  
+
   for (const page of pages) {
     const path = page.id === 'index' ? '/' : `/${page.id}`;
+    const { data } = page;
+    // Only listed pages are indexed, so their relations leave out unlisted ones
+    const rel = getPageRelations(page.id, graph, pageInfo);
+
     index[path] = {
-      title: page.data.title,
-      description: page.data.description,
+      title: data.title,
+      description: data.description,
+      excerpt: plainTextExcerpt(page.body ?? '') || undefined,
+      status: data.kind === 'project' ? data.status : undefined,
+      tags: data.tags,
+      created: toDate(data.created)!,
+      modified: toDate(data.modified),
+      relations: rel && {
+        partOf: [...rel.ntpp, ...rel.tpp].map(slug => pageInfo.get(slug)?.title ?? slug),
+        parts: rel.nttpi.length + rel.tppi.length,
+        references: rel.r.length,
+        backlinks: rel.ri.length,
+      },
     };
   }
-  
+
   return new Response(JSON.stringify(index, null, 2), {
     headers: {
       'Content-Type': 'application/json',
@@ -0,0 +1,53 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { buildRelationsGraph, getPageRelations, type TopologicalKey } from '@/lib/relations';
+import { slugToPath } from '@/lib/links';
+
+interface PageRef {
+  slug: string;
+  title: string;
+  url: string;
+}
+
+const TOPOLOGICAL_KEYS: TopologicalKey[] = ['ntpp', 'nttpi', 'tpp', 'tppi', 'po', 'ec', 'eq', 'dc'];
+
+// Unlisted pages get no endpoint, like they get no node on /graph
+export const getStaticPaths: GetStaticPaths = async () => {
+  const { graph, pages } = await buildRelationsGraph();
+  return [...graph.keys()]
+    .filter((slug) => pages.get(slug)?.listed)
+    .map((slug) => ({ params: { slug } }));
+};
+
+export const GET: APIRoute = async ({ params }) => {
+  const { graph, pages } = await buildRelationsGraph();
+  const slug = params.slug!;
+  // Filtered, so unlisted neighbours don't show up either
+  const rel = getPageRelations(slug, graph, pages)!;
+
+  const ref = (target: string): PageRef => ({
+    slug: target,
+    title: pages.get(target)?.title ?? target,
+    url: slugToPath(target),
+  });
+  const refs = (targets: string[]) => targets.map(ref);
+  const byKey = (source: Record<TopologicalKey, string[]>) =>
+    Object.fromEntries(TOPOLOGICAL_KEYS.map((key) => [key, refs(source[key])])) as Record<TopologicalKey, PageRef[]>;
+
+  const body = {
+    ...ref(slug),
+    relations: {
+      ...byKey(rel),
+      next: rel.next ? ref(rel.next) : null,
+      prev: rel.prev ? ref(rel.prev) : null,
+      r: refs(rel.r),
+      ri: refs(rel.ri),
+      inferred: byKey(rel.inferred),
+    },
+  };
+
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+};
@@ -0,0 +1,46 @@
+import type { APIRoute } from 'astro';
+import { getCollection } from 'astro:content';
+import { slugToPath } from '@/lib/links';
+import { getTags, tagPath } from '@/lib/tags';
+import { STATIC_ROUTES } from '@/lib/validation';
+import { isListed } from '@/lib/visibility';
+import { escapeXml } from '@/lib/xml';
+
+const toDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const GET: APIRoute = async ({ site }) => {
+  const pages = await getCollection('pages', (page) => isListed(page) && page.data.sitemap !== false);
+
+  const entries = pages.map((page) => ({
+    loc: new URL(slugToPath(page.id), site).href,
+    lastmod: page.data.modified ?? page.data.created,
+  }));
+
+  // Static routes change whenever any page does; with no pages, date them to this build
+  const latest = entries.length > 0 ? new Date(Math.max(...entries.map((e) => e.lastmod.getTime()))) : new Date();
+  for (const route of STATIC_ROUTES) {
+    entries.push({ loc: new URL(slugToPath(route), site).href, lastmod: latest });
+  }
+  // Tag pages change with the pages they list
+  for (const tag of await getTags()) {
+    const lastmod = new Date(Math.max(...tag.pages.map((p) => (p.data.modified ?? p.data.created).getTime())));
+    entries.push({ loc: new URL(tagPath(tag.slug), site).href, lastmod });
+  }
+
+  const urls = entries.map(({ loc, lastmod }) => `  <url>
+    <loc>${escapeXml(loc)}</loc>
+    <lastmod>${toDate(lastmod)}</lastmod>
+  </url>`);
+
+  const body = `<?xml version="1.0" encoding="utf-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+    },
+  });
+};
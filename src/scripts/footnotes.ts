@@ -83,7 +83,7 @@ function populateFootnotesList() {
 function attachClickHandlers() {
   document.querySelectorAll<HTMLElement>('.footnote-ref .footnote-number').forEach((link) => {
     link.addEventListener('click', (e) => {
-      if (!isWide()) return; // on narrow, let default anchor behavior work
+      if (!isWide()) return; // on narrow, popups.ts shows the note in a popup
 
       e.preventDefault();
       const href = link.getAttribute('href');
@@ -0,0 +1,181 @@
+import * as d3 from 'd3';
+import type { GraphBackend } from './renderer';
+import type { SimEdge, SimNode } from './simulation';
+import {
+  createGraphView,
+  edgeColor,
+  edgeDasharray,
+  edgeOpacity,
+  nodeFill,
+  nodeStroke,
+  type GraphChange,
+} from './shared';
+import { EDGE_STYLES, NODE_STYLES } from './styles';
+
+/** Below this zoom level labels are only drawn for hovered and highlighted nodes. */
+const LABEL_MIN_SCALE = 0.6;
+
+/** Extra pointer tolerance around a node's circle, in screen pixels. */
+const HIT_SLOP = 3;
+
+function dashArray(dasharray: string): number[] {
+  return dasharray ? dasharray.split(/\s+/).map(Number) : [];
+}
+
+/**
+ * Canvas 2D backend: draws the whole graph into one canvas, at most once per
+ * animation frame, and finds nodes under the pointer with a quadtree.
+ * Suits graphs with hundreds of nodes and thousands of edges.
+ */
+export const createCanvasGraph: GraphBackend = (container, data, config) => createGraphView(container, data, config, (view) => {
+  const { radiusOf } = view;
+
+  /* ── Canvas setup ───────────────────────────────────────────── */
+
+  const canvas = d3.select(container)
+    .append('canvas')
+    .style('display', 'block')
+    .style('width', '100%')
+    .style('height', '100%');
+  const canvasEl = canvas.node()!;
+  const ctx = canvasEl.getContext('2d')!;
+
+  function sizeCanvas() {
+    const ratio = window.devicePixelRatio || 1;
+    canvasEl.width = Math.round(view.width * ratio);
+    canvasEl.height = Math.round(view.height * ratio);
+  }
+  sizeCanvas();
+
+  /* ── Drawing ────────────────────────────────────────────────── */
+
+  let frame = 0;
+
+  function drawEdge(edge: SimEdge) {
+    const source = edge.source as SimNode;
+    const target = edge.target as SimNode;
+    if (source.x === undefined || target.x === undefined) return;
+
+    const style = EDGE_STYLES[edge.type];
+    const { emphasised } = view;
+    const touchesEmphasised = emphasised && (source === emphasised || target === emphasised);
+    ctx.globalAlpha = emphasised ? (touchesEmphasised ? 0.8 : 0.05) : edgeOpacity(edge);
+    ctx.strokeStyle = edgeColor(edge);
+    ctx.lineWidth = style.width;
+    ctx.setLineDash(dashArray(edgeDasharray(edge)));
+
+    ctx.beginPath();
+    ctx.moveTo(source.x, source.y!);
+    ctx.lineTo(target.x, target.y!);
+    ctx.stroke();
+
+    if (!style.directed) return;
+
+    // Arrowhead just outside the target's circle, scaled with the stroke like the SVG markers
+    const angle = Math.atan2(target.y! - source.y!, target.x - source.x);
+    const tipOffset = radiusOf(target) + 2;
+    const size = 3 * Math.max(style.width, 1);
+    const tipX = target.x - Math.cos(angle) * tipOffset;
+    const tipY = target.y! - Math.sin(angle) * tipOffset;
+
+    ctx.setLineDash([]);
+    ctx.fillStyle = style.color;
+    ctx.beginPath();
+    ctx.moveTo(tipX, tipY);
+    ctx.lineTo(tipX - size * Math.cos(angle - Math.PI / 6), tipY - size * Math.sin(angle - Math.PI / 6));
+    ctx.lineTo(tipX - size * Math.cos(angle + Math.PI / 6), tipY - size * Math.sin(angle + Math.PI / 6));
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  function drawNode(node: SimNode) {
+    if (node.x === undefined) return;
+    const { highlightNode, emphasised, emphasisedIds } = view;
+    const radius = radiusOf(node);
+
+    ctx.globalAlpha = emphasisedIds && !emphasisedIds.has(node.id) ? 0.15 : 1;
+    ctx.beginPath();
+    ctx.arc(node.x, node.y!, radius, 0, Math.PI * 2);
+    ctx.fillStyle = nodeFill(node, highlightNode, view.colorOf(node));
+    ctx.fill();
+    ctx.lineWidth = node.id === highlightNode ? 2.5 : 1;
+    ctx.strokeStyle = nodeStroke(node, highlightNode);
+    ctx.stroke();
+
+    if (node === view.keyboardNode) {
+      ctx.setLineDash([3, 2]);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = NODE_STYLES.highlight.color;
+      ctx.beginPath();
+      ctx.arc(node.x, node.y!, radius + 4, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    const labelled = view.transform.k >= LABEL_MIN_SCALE || node === emphasised || node.id === highlightNode;
+    if (labelled) {
+      ctx.fillStyle = NODE_STYLES.label.color;
+      ctx.fillText(node.title, node.x + radius + 4, node.y! + 4);
+    }
+  }
+
+  function draw() {
+    frame = 0;
+    const { transform } = view;
+    const ratio = canvasEl.width / Math.max(view.width, 1);
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvasEl.width, canvasEl.height);
+    ctx.setTransform(ratio * transform.k, 0, 0, ratio * transform.k, ratio * transform.x, ratio * transform.y);
+
+    view.visibleEdges.forEach(drawEdge);
+
+    ctx.setLineDash([]);
+    ctx.font = '11px system-ui, sans-serif';
+    view.nodes.forEach(drawNode);
+    ctx.globalAlpha = 1;
+  }
+
+  function scheduleDraw() {
+    if (!frame) frame = requestAnimationFrame(draw);
+  }
+
+  /* ── Hit-testing ────────────────────────────────────────────── */
+
+  // Rebuilt lazily, only when the pointer moves after the layout changed
+  let quadtree: d3.Quadtree<SimNode> | null = null;
+
+  /** The node under a pointer event, if any. */
+  function nodeAt(event: MouseEvent): SimNode | undefined {
+    quadtree ??= d3.quadtree<SimNode>()
+      .x(d => d.x ?? 0)
+      .y(d => d.y ?? 0)
+      .addAll(view.nodes.filter(n => n.x !== undefined));
+
+    const { transform } = view;
+    const [px, py] = d3.pointer(event, canvasEl);
+    const [x, y] = transform.invert([px, py]);
+    const slop = HIT_SLOP / transform.k;
+    const node = quadtree.find(x, y, 16 + slop);
+    if (!node) return undefined;
+    return Math.hypot(node.x! - x, node.y! - y) <= radiusOf(node) + slop ? node : undefined;
+  }
+
+  return {
+    element: canvas,
+    nodeAt,
+    draw(change: GraphChange) {
+      // The layout changed, so the quadtree is stale
+      if (change === 'positions') quadtree = null;
+      scheduleDraw();
+    },
+    resize() {
+      sizeCanvas();
+      scheduleDraw();
+    },
+    destroy() {
+      if (frame) cancelAnimationFrame(frame);
+      canvas.remove();
+    },
+  };
+});
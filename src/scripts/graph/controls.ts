@@ -0,0 +1,401 @@
+import * as d3 from 'd3';
+import type { SimEdge, SimNode } from './simulation';
+import { NODE_STYLES } from './styles';
+
+/*
+ * Viewport and accessibility controls shared by the SVG and canvas backends:
+ * zoom buttons, fit-to-bounds, a minimap, and keyboard traversal between
+ * related nodes announced through a live region.
+ */
+
+export interface GraphControlsOptions<E extends Element> {
+  container: HTMLElement;
+  /** Element the zoom behaviour is bound to; it also takes keyboard focus. */
+  target: d3.Selection<E, unknown, null, undefined>;
+  /**
+   * The backend's zoom behaviour. Used programmatically even when it isn't
+   * bound to pointer input, so fitting and keyboard panning always work.
+   */
+  zoom: d3.ZoomBehavior<E, unknown>;
+  nodes: SimNode[];
+  /** Edges currently shown; keyboard traversal follows these. */
+  edges: () => SimEdge[];
+  /** Current viewport width and height. */
+  size: () => [number, number];
+  /** Current zoom transform. */
+  transform: () => d3.ZoomTransform;
+  radiusOf: (node: SimNode) => number;
+  /** Node keyboard traversal starts from, e.g. the current page. */
+  startNode?: string;
+  /** Whether the user may zoom: enables the + / − / 0 keys. */
+  zoomable: boolean;
+  /** Show zoom buttons. */
+  buttons: boolean;
+  minimap: boolean;
+  /** Open a node (Enter). */
+  onOpen: (node: SimNode) => void;
+  /** The keyboard-focused node changed; redraw its focus ring. */
+  onKeyboardFocus: (node: SimNode | null) => void;
+}
+
+export interface GraphControls {
+  /** Zoom to fit every node, animated over `duration` ms. */
+  fit(duration?: number): void;
+  /** Redraw the minimap after nodes moved or the view changed. */
+  update(): void;
+  destroy(): void;
+}
+
+/** Space kept around the graph when fitting it, in screen pixels. */
+const FIT_PADDING = 40;
+
+/** Fitting never zooms in further than this, so tiny graphs aren't blown up. */
+const FIT_MAX_SCALE = 2;
+
+const ZOOM_STEP = 1.4;
+
+const MINIMAP_SIZE: [number, number] = [160, 110];
+
+const KEY_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft: [-1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+/** Neighbours more than ~70° off the arrow's direction aren't reachable with it. */
+const MIN_DIRECTION_COSINE = 0.35;
+
+const CONTROL_BUTTONS: { action: 'zoomIn' | 'zoomOut' | 'fit' | 'reset'; label: string; icon: string }[] = [
+  { action: 'zoomIn', label: 'Zoom in', icon: '<path d="M12 5v14M5 12h14" />' },
+  { action: 'zoomOut', label: 'Zoom out', icon: '<path d="M5 12h14" />' },
+  { action: 'fit', label: 'Fit to screen', icon: '<path d="M4 9V4h5M20 9V4h-5M4 15v5h5M20 15v5h-5" />' },
+  { action: 'reset', label: 'Reset zoom', icon: '<circle cx="12" cy="12" r="3" /><path d="M12 3v3M12 18v3M3 12h3M18 12h3" />' },
+];
+
+/* ── Geometry ─────────────────────────────────────────────────────── */
+
+/** Bounding box of the positioned nodes, including their radii. */
+function nodeBounds(nodes: SimNode[], radiusOf: (node: SimNode) => number): [[number, number], [number, number]] | null {
+  const placed = nodes.filter(n => n.x !== undefined && n.y !== undefined);
+  if (placed.length === 0) return null;
+  return [
+    [Math.min(...placed.map(n => n.x! - radiusOf(n))), Math.min(...placed.map(n => n.y! - radiusOf(n)))],
+    [Math.max(...placed.map(n => n.x! + radiusOf(n))), Math.max(...placed.map(n => n.y! + radiusOf(n)))],
+  ];
+}
+
+/**
+ * The zoom transform fitting every node into a `width` × `height` viewport.
+ */
+export function fitTransform(
+  nodes: SimNode[],
+  width: number,
+  height: number,
+  radiusOf: (node: SimNode) => number,
+): d3.ZoomTransform {
+  const bounds = nodeBounds(nodes, radiusOf);
+  if (!bounds) return d3.zoomIdentity.translate(width / 2, height / 2);
+
+  const [[x0, y0], [x1, y1]] = bounds;
+  const k = Math.min(
+    FIT_MAX_SCALE,
+    (width - 2 * FIT_PADDING) / Math.max(x1 - x0, 1),
+    (height - 2 * FIT_PADDING) / Math.max(y1 - y0, 1),
+  );
+  return d3.zoomIdentity
+    .translate(width / 2 - k * (x0 + x1) / 2, height / 2 - k * (y0 + y1) / 2)
+    .scale(Math.max(k, 0.05));
+}
+
+/**
+ * The neighbour lying closest in the direction (dx, dy) from `from`, favouring
+ * ones straight ahead over ones off to the side.
+ */
+function neighbourInDirection(from: SimNode, candidates: SimNode[], [dx, dy]: [number, number]): SimNode | undefined {
+  let best: SimNode | undefined;
+  let bestScore = Infinity;
+
+  for (const node of candidates) {
+    const vx = node.x! - from.x!;
+    const vy = node.y! - from.y!;
+    const distance = Math.hypot(vx, vy);
+    if (distance === 0) continue;
+
+    const cosine = (vx * dx + vy * dy) / distance;
+    if (cosine < MIN_DIRECTION_COSINE) continue;
+
+    const score = distance * (2 - cosine);
+    if (score < bestScore) {
+      best = node;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/* ── Controls ─────────────────────────────────────────────────────── */
+
+export function createGraphControls<E extends Element>(options: GraphControlsOptions<E>): GraphControls {
+  const { container, target, zoom, nodes, edges, size, transform, radiusOf } = options;
+  const element = target.node()!;
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+
+  /* ── Zoom ───────────────────────────────────────────────────── */
+
+  function fit(duration = 500) {
+    const [width, height] = size();
+    target.transition().duration(duration).call(zoom.transform, fitTransform(nodes, width, height, radiusOf));
+  }
+
+  const actions = {
+    zoomIn: () => target.transition().duration(200).call(zoom.scaleBy, ZOOM_STEP),
+    zoomOut: () => target.transition().duration(200).call(zoom.scaleBy, 1 / ZOOM_STEP),
+    fit: () => fit(),
+    reset: () => {
+      const [width, height] = size();
+      target.transition().duration(500).call(zoom.transform, d3.zoomIdentity.translate(width / 2, height / 2));
+    },
+  };
+
+  let buttons: HTMLElement | null = null;
+  if (options.buttons) {
+    buttons = document.createElement('div');
+    Object.assign(buttons.style, {
+      position: 'absolute',
+      left: '12px',
+      bottom: '12px',
+      zIndex: '10',
+      display: 'flex',
+      flexDirection: 'column',
+      background: 'var(--color-bg, #fff)',
+      border: '1px solid var(--color-border, #ccc)',
+    });
+
+    for (const { action, label, icon } of CONTROL_BUTTONS) {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.title = label;
+      button.setAttribute('aria-label', label);
+      button.innerHTML = `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">${icon}</svg>`;
+      Object.assign(button.style, {
+        display: 'flex',
+        padding: '5px',
+        color: 'var(--color-text-muted, #444)',
+        background: 'none',
+        border: 'none',
+        cursor: 'pointer',
+      });
+      button.addEventListener('click', actions[action]);
+      buttons.append(button);
+    }
+    container.append(buttons);
+  }
+
+  /* ── Minimap ────────────────────────────────────────────────── */
+
+  let minimap: HTMLCanvasElement | null = null;
+  let minimapFrame = 0;
+  /** Maps graph coordinates to minimap pixels; updated on every draw. */
+  let minimapScale = d3.zoomIdentity;
+
+  function drawMinimap() {
+    minimapFrame = 0;
+    if (!minimap) return;
+
+    const [mw, mh] = MINIMAP_SIZE;
+    const ratio = window.devicePixelRatio || 1;
+    const ctx = minimap.getContext('2d')!;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, mw, mh);
+
+    // Fit the graph and the current viewport, so the viewport never leaves the map
+    const [width, height] = size();
+    const view = transform();
+    const [[vx0, vy0], [vx1, vy1]] = [view.invert([0, 0]), view.invert([width, height])];
+    const bounds = nodeBounds(nodes, radiusOf) ?? [[vx0, vy0], [vx1, vy1]];
+    const [x0, y0] = [Math.min(bounds[0][0], vx0), Math.min(bounds[0][1], vy0)];
+    const [x1, y1] = [Math.max(bounds[1][0], vx1), Math.max(bounds[1][1], vy1)];
+    const k = Math.min((mw - 8) / Math.max(x1 - x0, 1), (mh - 8) / Math.max(y1 - y0, 1));
+    minimapScale = d3.zoomIdentity.translate(mw / 2 - k * (x0 + x1) / 2, mh / 2 - k * (y0 + y1) / 2).scale(k);
+
+    ctx.save();
+    ctx.translate(minimapScale.x, minimapScale.y);
+    ctx.scale(k, k);
+
+    ctx.globalAlpha = 0.4;
+    ctx.lineWidth = 1 / k;
+    ctx.beginPath();
+    for (const edge of edges()) {
+      const source = edge.source as SimNode;
+      const targetNode = edge.target as SimNode;
+      if (source.x === undefined || targetNode.x === undefined) continue;
+      ctx.moveTo(source.x, source.y!);
+      ctx.lineTo(targetNode.x, targetNode.y!);
+    }
+    ctx.strokeStyle = NODE_STYLES.stroke.color;
+    ctx.stroke();
+
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = NODE_STYLES.fill.color;
+    for (const node of nodes) {
+      if (node.x === undefined) continue;
+      ctx.beginPath();
+      ctx.arc(node.x, node.y!, Math.max(radiusOf(node), 1.5 / k), 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    ctx.strokeStyle = NODE_STYLES.highlight.color;
+    ctx.lineWidth = 1.5 / k;
+    ctx.strokeRect(vx0, vy0, vx1 - vx0, vy1 - vy0);
+    ctx.restore();
+  }
+
+  function update() {
+    if (minimap && !minimapFrame) minimapFrame = requestAnimationFrame(drawMinimap);
+  }
+
+  if (options.minimap) {
+    const [mw, mh] = MINIMAP_SIZE;
+    const ratio = window.devicePixelRatio || 1;
+    minimap = document.createElement('canvas');
+    minimap.width = mw * ratio;
+    minimap.height = mh * ratio;
+    minimap.setAttribute('aria-hidden', 'true');
+    Object.assign(minimap.style, {
+      position: 'absolute',
+      right: '12px',
+      bottom: '12px',
+      zIndex: '10',
+      width: `${mw}px`,
+      height: `${mh}px`,
+      background: 'var(--color-bg, #fff)',
+      border: '1px solid var(--color-border, #ccc)',
+      cursor: 'pointer',
+    });
+    container.append(minimap);
+
+    // Click or drag on the minimap to move the viewport there
+    const panTo = (event: MouseEvent) => {
+      const [x, y] = minimapScale.invert(d3.pointer(event, minimap));
+      target.call(zoom.translateTo, x, y);
+    };
+    d3.select(minimap).call(d3.drag<HTMLCanvasElement, unknown>()
+      .on('start drag', event => panTo(event.sourceEvent)));
+    update();
+  }
+
+  /* ── Keyboard ───────────────────────────────────────────────── */
+
+  const liveRegion = document.createElement('div');
+  liveRegion.setAttribute('role', 'status');
+  liveRegion.setAttribute('aria-live', 'polite');
+  // Visually hidden, but read by screen readers
+  Object.assign(liveRegion.style, {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    overflow: 'hidden',
+    clip: 'rect(0 0 0 0)',
+    whiteSpace: 'nowrap',
+  });
+  container.append(liveRegion);
+
+  const announce = (text: string) => { liveRegion.textContent = text; };
+
+  function neighboursOf(node: SimNode): SimNode[] {
+    const neighbours = new Set<SimNode>();
+    for (const edge of edges()) {
+      if (edge.source === node) neighbours.add(edge.target as SimNode);
+      if (edge.target === node) neighbours.add(edge.source as SimNode);
+    }
+    return [...neighbours].filter(n => n.x !== undefined);
+  }
+
+  let current: SimNode | null = null;
+
+  function setCurrent(node: SimNode | null) {
+    current = node;
+    options.onKeyboardFocus(node);
+    if (!node) return;
+
+    const count = neighboursOf(node).length;
+    announce(`${node.title}, ${count} related ${count === 1 ? 'page' : 'pages'}`);
+
+    // Keep the node in view
+    if (node.x === undefined) return;
+    const [width, height] = size();
+    const [sx, sy] = transform().apply([node.x, node.y!]);
+    if (sx < FIT_PADDING || sy < FIT_PADDING || sx > width - FIT_PADDING || sy > height - FIT_PADDING) {
+      target.transition().duration(300).call(zoom.translateTo, node.x, node.y!);
+    }
+  }
+
+  /** Where traversal starts: the start node, else the largest one. */
+  function firstNode(): SimNode | null {
+    const start = options.startNode ? nodeMap.get(options.startNode) : undefined;
+    if (start) return start;
+    const placed = nodes.filter(n => n.x !== undefined);
+    return placed.reduce<SimNode | null>((a, b) => (!a || radiusOf(b) > radiusOf(a) ? b : a), null);
+  }
+
+  element.setAttribute('tabindex', '0');
+  element.setAttribute('role', 'application');
+  element.setAttribute('aria-roledescription', 'graph');
+  element.setAttribute(
+    'aria-label',
+    options.zoomable
+      ? 'Relations graph. Arrow keys move between related pages, Enter opens one, + and − zoom, 0 fits the graph.'
+      : 'Relations graph. Arrow keys move between related pages, Enter opens one.',
+  );
+
+  // Only keyboard focus shows the focus ring, not clicks on the graph
+  const onFocus = () => {
+    if (element.matches(':focus-visible')) setCurrent(current ?? firstNode());
+  };
+  const onBlur = () => options.onKeyboardFocus(null);
+  const onKeydown = (event: KeyboardEvent) => {
+    const direction = KEY_DIRECTIONS[event.key];
+
+    if (direction) {
+      event.preventDefault();
+      if (!current) return setCurrent(firstNode());
+      const next = neighbourInDirection(current, neighboursOf(current), direction);
+      if (next) setCurrent(next);
+      else announce(`No related page in that direction from ${current.title}`);
+    } else if (event.key === 'Enter' && current) {
+      event.preventDefault();
+      options.onOpen(current);
+    } else if (event.key === 'Escape' && current) {
+      setCurrent(null);
+      announce('');
+    } else if (!options.zoomable) {
+      return;
+    } else if (event.key === '+' || event.key === '=') {
+      actions.zoomIn();
+    } else if (event.key === '-') {
+      actions.zoomOut();
+    } else if (event.key === '0') {
+      actions.fit();
+    }
+  };
+
+  element.addEventListener('focus', onFocus);
+  element.addEventListener('blur', onBlur);
+  element.addEventListener('keydown', onKeydown as EventListener);
+
+  return {
+    fit,
+    update,
+    destroy() {
+      element.removeEventListener('focus', onFocus);
+      element.removeEventListener('blur', onBlur);
+      element.removeEventListener('keydown', onKeydown as EventListener);
+      if (minimapFrame) cancelAnimationFrame(minimapFrame);
+      buttons?.remove();
+      minimap?.remove();
+      liveRegion.remove();
+    },
+  };
+}
@@ -0,0 +1,431 @@
+import { extractSubgraph, type EdgeType, type GraphData } from '@/lib/graph-data';
+import { GRAPH_EXPORTS, type GraphExportFormat } from '@/lib/graph-export';
+import { layoutGraph, type GraphLayout } from '@/lib/graph-layout';
+import type { GraphMetric } from '@/lib/graph-analytics';
+import { createGraph, type GraphInstance, type GraphRenderer } from './renderer';
+import { slugToHref, type NodeColoring } from './shared';
+import { EDGE_STYLES } from './styles';
+
+/*
+ * The /graph page: relation filters, layout choice, title search, a details
+ * panel for the selected node and focus mode, which narrows the graph to the
+ * selected node's N-hop neighbourhood. Nodes can be sized and coloured by a
+ * graph metric. Downloads export the graph as shown.
+ *
+ * The selection, focus depth and layout live in the URL hash
+ * (`#node=blog&focus=2&layout=radial`) so a view can be linked to.
+ */
+
+/* ── Types ────────────────────────────────────────────────────────── */
+
+interface PageRef {
+  slug: string;
+  title: string;
+  url: string;
+}
+
+/** Shape of /relations/<slug>.json. */
+interface RelationsResponse extends PageRef {
+  relations: Record<'ntpp' | 'nttpi' | 'tpp' | 'tppi' | 'po' | 'ec' | 'eq' | 'dc' | 'r' | 'ri', PageRef[]> & {
+    next: PageRef | null;
+    prev: PageRef | null;
+    inferred: Record<'ntpp' | 'nttpi' | 'tpp' | 'tppi' | 'po' | 'ec' | 'eq' | 'dc', PageRef[]>;
+  };
+}
+
+interface ExplorerState {
+  selected: string | null;
+  /** Neighbourhood depth while in focus mode, otherwise null. */
+  focus: number | null;
+  layout: GraphLayout;
+}
+
+const LAYOUTS: GraphLayout[] = ['force', 'tree', 'radial'];
+
+/** Rows of the details panel, in display order. */
+const RELATION_ROWS: { key: keyof RelationsResponse['relations']; label: string }[] = [
+  { key: 'ntpp', label: 'Part of (NTPP)' },
+  { key: 'tpp', label: 'Part of (TPP)' },
+  { key: 'nttpi', label: 'Parts (NTPPi)' },
+  { key: 'tppi', label: 'Parts (TPPi)' },
+  { key: 'eq', label: 'Equal (EQ)' },
+  { key: 'po', label: 'Overlaps (PO)' },
+  { key: 'ec', label: 'Connected (EC)' },
+  { key: 'dc', label: 'Disconnected (DC)' },
+  { key: 'prev', label: 'Previous' },
+  { key: 'next', label: 'Next' },
+  { key: 'r', label: 'References (R)' },
+  { key: 'ri', label: 'Referenced by (Ri)' },
+];
+
+const MAX_RESULTS = 8;
+
+/* ── Fuzzy search ─────────────────────────────────────────────────── */
+
+/**
+ * Score how well `query` matches `text` as a subsequence, favouring runs of
+ * consecutive characters and matches at word starts. Null if it doesn't match.
+ */
+function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  let score = 0;
+  let run = 0;
+  let ti = 0;
+
+  for (const ch of q) {
+    const found = t.indexOf(ch, ti);
+    if (found === -1) return null;
+
+    run = found === ti ? run + 1 : 0;
+    score += 1 + run * 2;
+    if (found === 0 || /[\s\-_/]/.test(t[found - 1])) score += 3;
+    ti = found + 1;
+  }
+
+  // Prefer shorter titles among equal matches
+  return score - t.length * 0.01;
+}
+
+/* ── Hash state ───────────────────────────────────────────────────── */
+
+function readHash(): ExplorerState {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const focus = Number(params.get('focus'));
+  const layout = params.get('layout') as GraphLayout;
+  return {
+    selected: params.get('node'),
+    focus: params.has('focus') && focus > 0 ? focus : null,
+    layout: LAYOUTS.includes(layout) ? layout : 'force',
+  };
+}
+
+function writeHash({ selected, focus, layout }: ExplorerState) {
+  const params = new URLSearchParams();
+  if (selected) params.set('node', selected);
+  if (selected && focus) params.set('focus', String(focus));
+  if (layout !== 'force') params.set('layout', layout);
+  const hash = params.toString();
+  const url = `${window.location.pathname}${window.location.search}${hash ? `#${hash}` : ''}`;
+  history.replaceState(history.state, '', url);
+}
+
+/* ── Data ─────────────────────────────────────────────────────────── */
+
+const relationsCache = new Map<string, Promise<RelationsResponse | null>>();
+let descriptions: Promise<Record<string, { description?: string }>> | null = null;
+
+function loadRelations(slug: string): Promise<RelationsResponse | null> {
+  let cached = relationsCache.get(slug);
+  if (!cached) {
+    cached = fetch(`/relations/${slug}.json`)
+      .then((response) => (response.ok ? response.json() : null))
+      .catch(() => null);
+    relationsCache.set(slug, cached);
+  }
+  return cached;
+}
+
+async function loadDescription(slug: string): Promise<string | undefined> {
+  descriptions ??= fetch('/popup-index.json')
+    .then((response) => (response.ok ? response.json() : {}))
+    .catch(() => ({}));
+  const index = await descriptions;
+  const description = index[slug === 'index' ? '/' : `/${slug}`]?.description;
+  // Descriptions may contain Markdown links; show their text only
+  return description?.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
+}
+
+/* ── Explorer ─────────────────────────────────────────────────────── */
+
+export function initGraphExplorer(container: HTMLElement, data: GraphData, renderer?: GraphRenderer) {
+  const titles = new Map(data.nodes.map((n) => [n.id, n.title]));
+
+  let visibleTypes = new Set(Object.keys(EDGE_STYLES) as EdgeType[]);
+  let showInferred = true;
+  let sizeBy: GraphMetric | undefined;
+  let colorBy: NodeColoring | undefined;
+  let state: ExplorerState = { selected: null, focus: null, layout: 'force' };
+  let instance: GraphInstance | null = null;
+  /** Data currently rendered: the full graph, or a focused or re-laid-out copy. */
+  let shown = data;
+
+  /* ── Rendering ──────────────────────────────────────────────── */
+
+  function render() {
+    instance?.destroy();
+
+    const root = state.focus && state.selected;
+    const subgraph = root
+      ? extractSubgraph(data, root, { relationTypes: [...visibleTypes], depth: state.focus! })
+      : data;
+    // The force layout was precomputed at build time; the others depend on the selection
+    shown = state.layout === 'force'
+      ? subgraph
+      : layoutGraph(subgraph, { layout: state.layout, root: state.selected ?? undefined });
+
+    instance = createGraph(container, shown, {
+      visibleTypes,
+      showInferred,
+      sizeBy,
+      colorBy,
+      highlightNode: state.selected ?? undefined,
+      zoomable: true,
+      draggable: true,
+      minimap: true,
+      renderer,
+      onNodeClick: (id) => select(id),
+    });
+    if (root) instance.focusNode(root);
+  }
+
+  /**
+   * Select a node (or clear the selection with null), optionally panning to it.
+   * In focus mode the neighbourhood moves to the new selection, and the radial
+   * layout re-centers on it.
+   */
+  function select(slug: string | null, pan = false) {
+    if (slug && !titles.has(slug)) slug = null;
+    const changed = slug !== state.selected;
+    const rerender = changed && (state.focus !== null || state.layout === 'radial');
+    state = { ...state, selected: slug, focus: slug ? state.focus : null };
+    writeHash(state);
+
+    if (rerender) {
+      render();
+    } else {
+      instance?.setHighlight(slug ?? undefined);
+      if (slug && pan) instance?.focusNode(slug);
+    }
+    showDetails(slug);
+  }
+
+  function setFocus(depth: number | null) {
+    if (!state.selected) return;
+    state = { ...state, focus: depth };
+    writeHash(state);
+    render();
+    showDetails(state.selected);
+  }
+
+  /* ── Filters ────────────────────────────────────────────────── */
+
+  const checkboxes = document.querySelectorAll<HTMLInputElement>('[data-edge-type]');
+  checkboxes.forEach((cb) => {
+    cb.addEventListener('change', () => {
+      visibleTypes = new Set<EdgeType>();
+      checkboxes.forEach((c) => {
+        if (c.checked) visibleTypes.add(c.dataset.edgeType as EdgeType);
+      });
+      // The focused neighbourhood depends on which relations are shown
+      if (state.focus) render();
+      else instance?.setVisibleTypes(visibleTypes);
+    });
+  });
+
+  const inferredToggle = document.querySelector<HTMLInputElement>('[data-show-inferred]');
+  inferredToggle?.addEventListener('change', () => {
+    showInferred = inferredToggle.checked;
+    instance?.setShowInferred(showInferred);
+  });
+
+  const layoutSelect = document.querySelector<HTMLSelectElement>('[data-graph-layout]');
+  layoutSelect?.addEventListener('change', () => {
+    state = { ...state, layout: layoutSelect.value as GraphLayout };
+    writeHash(state);
+    render();
+    if (state.selected) instance?.focusNode(state.selected);
+  });
+
+  const sizeSelect = document.querySelector<HTMLSelectElement>('[data-graph-size]');
+  sizeSelect?.addEventListener('change', () => {
+    sizeBy = sizeSelect.value as GraphMetric;
+    render();
+    if (state.selected) instance?.focusNode(state.selected);
+  });
+
+  const colorSelect = document.querySelector<HTMLSelectElement>('[data-graph-color]');
+  colorSelect?.addEventListener('change', () => {
+    colorBy = (colorSelect.value || undefined) as NodeColoring | undefined;
+    render();
+    if (state.selected) instance?.focusNode(state.selected);
+  });
+
+  /* ── Downloads ──────────────────────────────────────────────── */
+
+  // The links point at the prebuilt full-graph files; any other view is
+  // serialised on the spot
+  document.querySelectorAll<HTMLAnchorElement>('[data-graph-export]').forEach((link) => {
+    link.addEventListener('click', (event) => {
+      if (shown === data) return;
+      event.preventDefault();
+
+      const exporter = GRAPH_EXPORTS[link.dataset.graphExport as GraphExportFormat];
+      const body = exporter.serialize(shown, new URL(window.location.origin));
+      const url = URL.createObjectURL(new Blob([body], { type: exporter.contentType }));
+
+      const download = document.createElement('a');
+      download.href = url;
+      download.download = `graph-${state.selected ?? state.layout}.${exporter.extension}`;
+      download.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+    });
+  });
+
+  /* ── Details panel ──────────────────────────────────────────── */
+
+  const details = document.getElementById('graph-details')!;
+  const detailsTitle = details.querySelector<HTMLAnchorElement>('.graph-details-title')!;
+  const detailsDescription = details.querySelector<HTMLElement>('.graph-details-description')!;
+  const detailsRelations = details.querySelector<HTMLElement>('.graph-details-relations')!;
+  const focusToggle = details.querySelector<HTMLButtonElement>('[data-focus-toggle]')!;
+  const focusDepth = details.querySelector<HTMLSelectElement>('[data-focus-depth]')!;
+
+  function relationItem(ref: PageRef, inferred: boolean): HTMLLIElement {
+    const item = document.createElement('li');
+    if (inferred) item.className = 'inferred';
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = ref.title;
+    // Pages outside the graph (e.g. unlisted) can only be opened
+    if (titles.has(ref.slug)) {
+      button.addEventListener('click', () => select(ref.slug, true));
+    } else {
+      button.addEventListener('click', () => { window.location.href = ref.url; });
+    }
+    item.appendChild(button);
+    return item;
+  }
+
+  async function showDetails(slug: string | null) {
+    details.hidden = !slug;
+    if (!slug) return;
+
+    detailsTitle.textContent = titles.get(slug) ?? slug;
+    detailsTitle.href = slugToHref(slug);
+    focusToggle.textContent = state.focus ? 'Show all' : 'Focus';
+    focusToggle.setAttribute('aria-pressed', String(state.focus !== null));
+    if (state.focus) focusDepth.value = String(state.focus);
+    detailsDescription.hidden = true;
+    detailsRelations.replaceChildren();
+
+    const [relations, description] = await Promise.all([loadRelations(slug), loadDescription(slug)]);
+    if (state.selected !== slug) return;
+
+    detailsDescription.textContent = description ?? '';
+    detailsDescription.hidden = !description;
+
+    for (const { key, label } of RELATION_ROWS) {
+      const value = relations?.relations[key];
+      const declared = (Array.isArray(value) ? value : value ? [value] : []) as PageRef[];
+      const inferred = key in (relations?.relations.inferred ?? {})
+        ? relations!.relations.inferred[key as keyof RelationsResponse['relations']['inferred']]
+        : [];
+      if (declared.length + inferred.length === 0) continue;
+
+      const term = document.createElement('dt');
+      term.textContent = label;
+      const list = document.createElement('ul');
+      declared.forEach((ref) => list.appendChild(relationItem(ref, false)));
+      inferred.forEach((ref) => list.appendChild(relationItem(ref, true)));
+      const definition = document.createElement('dd');
+      definition.appendChild(list);
+      detailsRelations.append(term, definition);
+    }
+  }
+
+  details.querySelector('.graph-details-close')!.addEventListener('click', () => select(null));
+  focusToggle.addEventListener('click', () => setFocus(state.focus ? null : Number(focusDepth.value)));
+  focusDepth.addEventListener('change', () => {
+    if (state.focus) setFocus(Number(focusDepth.value));
+  });
+
+  /* ── Search ─────────────────────────────────────────────────── */
+
+  const input = document.getElementById('graph-search-input') as HTMLInputElement;
+  const results = document.getElementById('graph-search-results')!;
+  let matches: string[] = [];
+  let active = 0;
+
+  function showResults() {
+    const query = input.value.trim();
+    matches = query
+      ? data.nodes
+        .map((n) => ({ id: n.id, score: fuzzyScore(query, n.title) }))
+        .filter((m): m is { id: string; score: number } => m.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_RESULTS)
+        .map((m) => m.id)
+      : [];
+    active = 0;
+
+    results.replaceChildren(...matches.map((id, i) => {
+      const item = document.createElement('li');
+      item.id = `graph-search-result-${i}`;
+      item.setAttribute('role', 'option');
+      item.textContent = titles.get(id)!;
+      item.addEventListener('mousedown', (event) => {
+        // Keep focus in the input until the selection is made
+        event.preventDefault();
+        choose(i);
+      });
+      return item;
+    }));
+    results.hidden = matches.length === 0;
+    input.setAttribute('aria-expanded', String(matches.length > 0));
+    highlightResult();
+  }
+
+  function highlightResult() {
+    results.querySelectorAll('li').forEach((item, i) => item.setAttribute('aria-selected', String(i === active)));
+    if (matches.length > 0) input.setAttribute('aria-activedescendant', `graph-search-result-${active}`);
+    else input.removeAttribute('aria-activedescendant');
+  }
+
+  function choose(index: number) {
+    const slug = matches[index];
+    if (!slug) return;
+    input.value = titles.get(slug)!;
+    results.hidden = true;
+    input.setAttribute('aria-expanded', 'false');
+    select(slug, true);
+  }
+
+  input.addEventListener('input', showResults);
+  input.addEventListener('focus', showResults);
+  input.addEventListener('blur', () => {
+    results.hidden = true;
+    input.setAttribute('aria-expanded', 'false');
+  });
+  input.addEventListener('keydown', (event) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (matches.length === 0) return;
+      active = (active + (event.key === 'ArrowDown' ? 1 : -1) + matches.length) % matches.length;
+      highlightResult();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      choose(active);
+    } else if (event.key === 'Escape') {
+      input.value = '';
+      showResults();
+      input.blur();
+    }
+  });
+
+  /* ── Startup ────────────────────────────────────────────────── */
+
+  function applyHash() {
+    const next = readHash();
+    if (next.selected && !titles.has(next.selected)) next.selected = null;
+    state = { selected: next.selected, focus: next.selected ? next.focus : null, layout: next.layout };
+    if (layoutSelect) layoutSelect.value = state.layout;
+    render();
+    if (state.selected) instance?.focusNode(state.selected);
+    showDetails(state.selected);
+  }
+
+  window.addEventListener('hashchange', applyHash);
+  window.addEventListener('resize', () => instance?.resize());
+  applyHash();
+}
@@ -0,0 +1,420 @@
+import * as d3 from 'd3';
+import { metricValue, type GraphMetric } from '@/lib/graph-analytics';
+import type { EdgeType, GraphData } from '@/lib/graph-data';
+import { nodeRadius } from '@/lib/graph-layout';
+import { createGraphControls, fitTransform } from './controls';
+import type { GraphConfig, GraphInstance } from './renderer';
+import { createSimulation, toSimData, type SimEdge, type SimNode } from './simulation';
+import { EDGE_STYLES, INFERRED_EDGE_STYLE, NODE_STYLES, resolveRuntimeColors } from './styles';
+
+/*
+ * Helpers shared by the SVG and canvas backends, and the view both are
+ * surfaces of (see `createGraphView`).
+ */
+
+export function slugToHref(slug: string): string {
+  return slug === 'index' ? '/' : `/${slug}/`;
+}
+
+export function edgeOpacity(edge: SimEdge): number {
+  return edge.origin === 'inferred' ? INFERRED_EDGE_STYLE.opacity : 0.6;
+}
+
+export function edgeDasharray(edge: SimEdge): string {
+  return edge.origin === 'inferred' ? INFERRED_EDGE_STYLE.dasharray : EDGE_STYLES[edge.type].dasharray;
+}
+
+export function edgeColor(edge: SimEdge): string {
+  return EDGE_STYLES[edge.type].color;
+}
+
+export function nodeFill(node: SimNode, highlightNode?: string, color?: string): string {
+  return node.id === highlightNode ? NODE_STYLES.highlight.color : color ?? NODE_STYLES.fill.color;
+}
+
+export function nodeStroke(node: SimNode, highlightNode?: string): string {
+  return node.id === highlightNode ? NODE_STYLES.highlight.color : NODE_STYLES.stroke.color;
+}
+
+/** Radius range of nodes sized by a metric other than the relation count. */
+const METRIC_RADIUS = [4, 16];
+
+/**
+ * Node radius by `metric`, relative to the graph's largest value. Relation
+ * counts keep their absolute scale, so sizes compare across pages.
+ */
+export function nodeSizer(nodes: SimNode[], metric: GraphMetric): (node: SimNode) => number {
+  if (metric === 'connections') return node => nodeRadius(node.connections);
+
+  const max = Math.max(0, ...nodes.map(n => metricValue(n, metric)));
+  const [min, range] = [METRIC_RADIUS[0], METRIC_RADIUS[1] - METRIC_RADIUS[0]];
+  return node => min + (max > 0 ? range * Math.sqrt(metricValue(node, metric) / max) : 0);
+}
+
+/** How nodes are coloured: by community, or on a scale by a metric. */
+export type NodeColoring = GraphMetric | 'community';
+
+/**
+ * Node fill by `coloring`: a categorical colour per community, or a sequential
+ * scale relative to the graph's largest value. Undefined leaves the theme's fill.
+ */
+export function nodeColorer(nodes: SimNode[], coloring?: NodeColoring): (node: SimNode) => string | undefined {
+  if (!coloring) return () => undefined;
+  if (coloring === 'community') {
+    return node => node.metrics ? d3.schemeTableau10[node.metrics.community % 10] : undefined;
+  }
+
+  const max = Math.max(0, ...nodes.map(n => metricValue(n, coloring)));
+  // Skip the palest end of the scale, which disappears on a light background
+  return node => d3.interpolateViridis(0.85 - 0.75 * (max > 0 ? Math.sqrt(metricValue(node, coloring) / max) : 0));
+}
+
+/** IDs of `id` and every node sharing an edge with it. */
+export function neighbourhood(edges: SimEdge[], id: string): Set<string> {
+  const ids = new Set([id]);
+  for (const e of edges) {
+    const src = (e.source as SimNode).id;
+    const tgt = (e.target as SimNode).id;
+    if (src === id) ids.add(tgt);
+    if (tgt === id) ids.add(src);
+  }
+  return ids;
+}
+
+/** Zoom level a focused node is shown at, unless already zoomed in further. */
+const FOCUS_SCALE = 1.5;
+
+/**
+ * The zoom transform that centers `node` in a `width` × `height` viewport.
+ */
+export function focusTransform(node: SimNode, width: number, height: number, current: d3.ZoomTransform): d3.ZoomTransform {
+  const k = Math.max(current.k, FOCUS_SCALE);
+  return d3.zoomIdentity.translate(width / 2 - k * (node.x ?? 0), height / 2 - k * (node.y ?? 0)).scale(k);
+}
+
+/**
+ * Create the hover tooltip, positioned within `container`.
+ */
+export function createTooltip(container: HTMLElement) {
+  const tooltip = d3.select(container)
+    .append('div')
+    .style('position', 'absolute')
+    .style('pointer-events', 'none')
+    .style('background', 'var(--color-bg, #fff)')
+    .style('border', '1px solid var(--color-border, #ccc)')
+    .style('padding', '4px 8px')
+    .style('font-size', '12px')
+    .style('font-family', 'system-ui, sans-serif')
+    .style('color', 'var(--color-text, #111)')
+    .style('opacity', '0')
+    .style('transition', 'opacity 50ms ease-out')
+    .style('white-space', 'nowrap')
+    .style('z-index', '10');
+
+  return {
+    show(text: string) {
+      tooltip.style('opacity', '1').text(text);
+    },
+    move(event: MouseEvent) {
+      const rect = container.getBoundingClientRect();
+      tooltip
+        .style('left', `${event.clientX - rect.left + 12}px`)
+        .style('top', `${event.clientY - rect.top - 8}px`);
+    },
+    hide() {
+      tooltip.style('opacity', '0');
+    },
+    remove() {
+      tooltip.remove();
+    },
+  };
+}
+
+/**
+ * Call `callback` whenever the site theme changes. Returns a disconnect function.
+ */
+export function observeTheme(callback: () => void): () => void {
+  const observer = new MutationObserver(callback);
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-theme'] });
+  return () => observer.disconnect();
+}
+
+/* ── View ─────────────────────────────────────────────────────────── */
+
+/** State a surface draws from. Kept up to date by `createGraphView`. */
+export interface GraphView {
+  nodes: SimNode[];
+  edges: SimEdge[];
+  /** Edges of the visible types, and inferred ones only when shown. */
+  visibleEdges: SimEdge[];
+  highlightNode?: string;
+  /** Node focused with the keyboard, which gets a focus ring. */
+  keyboardNode: SimNode | null;
+  /** Hovered node, else the keyboard-focused one; everything else is faded. */
+  emphasised: SimNode | null;
+  /** `emphasised` and its neighbours. */
+  emphasisedIds: Set<string> | null;
+  transform: d3.ZoomTransform;
+  width: number;
+  height: number;
+  radiusOf: (node: SimNode) => number;
+  colorOf: (node: SimNode) => string | undefined;
+}
+
+/**
+ * What changed since a surface last drew: node positions, the zoom
+ * transform, the visible edges, or styling (highlight, emphasis, theme).
+ */
+export type GraphChange = 'positions' | 'transform' | 'edges' | 'style';
+
+/** A backend's drawing surface: renders the view and hit-tests the pointer. */
+export interface GraphSurface<E extends Element> {
+  /** Element pointer input (hover, drag, zoom) and keyboard focus are bound to. */
+  element: d3.Selection<E, unknown, null, undefined>;
+  /** The node under a pointer event, if any. */
+  nodeAt(event: MouseEvent): SimNode | undefined;
+  draw(change: GraphChange): void;
+  /** The viewport was resized to the view's width and height. */
+  resize(): void;
+  destroy(): void;
+}
+
+/**
+ * Lay out `data` with the force simulation and wire up everything both
+ * backends share: hover, drag, zoom, focus, viewport controls and theme
+ * changes. `createSurface` draws it.
+ */
+export function createGraphView<E extends Element>(
+  container: HTMLElement,
+  data: GraphData,
+  config: GraphConfig,
+  createSurface: (view: GraphView) => GraphSurface<E>,
+): GraphInstance {
+  resolveRuntimeColors();
+
+  const {
+    zoomable = true,
+    draggable = true,
+    controls: showControls = zoomable,
+    minimap = false,
+    worker = false,
+    simulate = true,
+    sizeBy = 'connections',
+    colorBy,
+    onNodeClick = (id) => { window.location.href = slugToHref(id); },
+  } = config;
+
+  let visibleTypes = config.visibleTypes ?? new Set(Object.keys(EDGE_STYLES) as EdgeType[]);
+  let showInferred = config.showInferred ?? true;
+
+  const isEdgeVisible = (e: SimEdge) =>
+    visibleTypes.has(e.type) && (showInferred || e.origin !== 'inferred');
+
+  /* ── Data ───────────────────────────────────────────────────── */
+
+  const { nodes, edges } = toSimData(data);
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+
+  const view: GraphView = {
+    nodes,
+    edges,
+    visibleEdges: edges.filter(isEdgeVisible),
+    highlightNode: config.highlightNode,
+    keyboardNode: null,
+    emphasised: null,
+    emphasisedIds: null,
+    transform: d3.zoomIdentity,
+    width: container.clientWidth,
+    height: container.clientHeight,
+    radiusOf: nodeSizer(nodes, sizeBy),
+    colorOf: nodeColorer(nodes, colorBy),
+  };
+
+  const simulation = createSimulation(nodes, edges, { worker, simulate });
+  const surface = createSurface(view);
+  const { element } = surface;
+
+  /* ── Hover ──────────────────────────────────────────────────── */
+
+  const tooltip = createTooltip(container);
+  let hovered: SimNode | null = null;
+
+  function updateEmphasis() {
+    view.emphasised = hovered ?? view.keyboardNode;
+    view.emphasisedIds = view.emphasised ? neighbourhood(edges, view.emphasised.id) : null;
+    surface.draw('style');
+  }
+
+  function setHovered(node: SimNode | null) {
+    if (node === hovered) return;
+    hovered = node;
+    element.style('cursor', node ? 'pointer' : '');
+    if (node) tooltip.show(node.title);
+    else tooltip.hide();
+    updateEmphasis();
+  }
+
+  element
+    .on('mousemove', (event: MouseEvent) => {
+      setHovered(surface.nodeAt(event) ?? null);
+      if (hovered) tooltip.move(event);
+    })
+    .on('mouseleave', () => setHovered(null))
+    .on('click', (event: MouseEvent) => {
+      const node = surface.nodeAt(event);
+      if (node) onNodeClick(node.id);
+    });
+
+  /* ── Drag ───────────────────────────────────────────────────── */
+
+  // Registered before zoom so that pressing on a node drags it rather than panning
+  if (draggable) {
+    const drag = d3.drag<E, unknown, SimNode | undefined>()
+      .subject((event) => surface.nodeAt(event.sourceEvent))
+      .on('start', (event) => {
+        if (!event.active) {
+          simulation.setAlphaTarget(0.3);
+          simulation.restart();
+        }
+        const node = event.subject!;
+        simulation.pin(node, node.x ?? 0, node.y ?? 0);
+      })
+      .on('drag', (event) => {
+        const [x, y] = view.transform.invert(d3.pointer(event.sourceEvent, element.node()));
+        simulation.pin(event.subject!, x, y);
+        surface.draw('positions');
+      })
+      .on('end', (event) => {
+        if (!event.active) simulation.setAlphaTarget(0);
+        simulation.pin(event.subject!, null, null);
+      });
+    element.call(drag);
+  }
+
+  /* ── Zoom ───────────────────────────────────────────────────── */
+
+  /** Set once the user pans, zooms or focuses a node, so the view isn't refitted under them. */
+  let keepView = false;
+
+  // Only bound to pointer input when zoomable, but always used to fit and pan
+  const zoom = d3.zoom<E, unknown>()
+    .scaleExtent([0.15, 5])
+    .on('zoom', (event) => {
+      view.transform = event.transform;
+      if (event.sourceEvent) keepView = true;
+      surface.draw('transform');
+      controls.update();
+    });
+
+  if (zoomable) element.call(zoom);
+
+  /* ── Focus ──────────────────────────────────────────────────── */
+
+  let pinned: SimNode | null = null;
+  let pendingFocus: SimNode | null = null;
+
+  function focus(node: SimNode) {
+    if (pinned && pinned !== node) simulation.pin(pinned, null, null);
+    pinned = node;
+    simulation.pin(node, node.x!, node.y!);
+
+    if (!zoomable) return;
+    keepView = true;
+    element.transition()
+      .duration(500)
+      .call(zoom.transform, focusTransform(node, view.width, view.height, view.transform));
+  }
+
+  /* ── Viewport ───────────────────────────────────────────────── */
+
+  const controls = createGraphControls({
+    container,
+    target: element,
+    zoom,
+    nodes,
+    edges: () => view.visibleEdges,
+    size: () => [view.width, view.height],
+    transform: () => view.transform,
+    radiusOf: view.radiusOf,
+    startNode: view.highlightNode,
+    zoomable,
+    buttons: showControls,
+    minimap,
+    onOpen: node => onNodeClick(node.id),
+    onKeyboardFocus: (node) => {
+      if (node) keepView = true;
+      view.keyboardNode = node;
+      updateEmphasis();
+    },
+  });
+
+  // Fit whatever positions there are now, and again once the layout has settled
+  element.call(zoom.transform, fitTransform(nodes, view.width, view.height, view.radiusOf));
+  let settled = false;
+  simulation.onEnd(() => {
+    if (!settled && !keepView) controls.fit();
+    settled = true;
+  });
+
+  /* ── Tick ───────────────────────────────────────────────────── */
+
+  simulation.onTick(() => {
+    // A node focused before its first position arrived (worker simulation)
+    if (pendingFocus && pendingFocus.x !== undefined) {
+      focus(pendingFocus);
+      pendingFocus = null;
+    }
+    surface.draw('positions');
+    controls.update();
+  });
+
+  /* ── Theme ──────────────────────────────────────────────────── */
+
+  const stopObservingTheme = observeTheme(() => {
+    resolveRuntimeColors();
+    surface.draw('style');
+    controls.update();
+  });
+
+  /* ── Public API ─────────────────────────────────────────────── */
+
+  function updateVisibleEdges() {
+    view.visibleEdges = edges.filter(isEdgeVisible);
+    surface.draw('edges');
+  }
+
+  return {
+    destroy() {
+      stopObservingTheme();
+      controls.destroy();
+      simulation.stop();
+      surface.destroy();
+      tooltip.remove();
+    },
+    resize() {
+      view.width = container.clientWidth;
+      view.height = container.clientHeight;
+      surface.resize();
+      if (!keepView) controls.fit(0);
+      controls.update();
+    },
+    setVisibleTypes(types: Set<EdgeType>) {
+      visibleTypes = types;
+      updateVisibleEdges();
+    },
+    setShowInferred(show: boolean) {
+      showInferred = show;
+      updateVisibleEdges();
+    },
+    setHighlight(nodeId?: string) {
+      view.highlightNode = nodeId;
+      surface.draw('style');
+    },
+    focusNode(nodeId: string) {
+      const node = nodeMap.get(nodeId);
+      if (!node) return;
+      if (node.x === undefined) pendingFocus = node;
+      else focus(node);
+    },
+  };
+}
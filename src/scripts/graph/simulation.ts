@@ -0,0 +1,224 @@
+import type * as d3 from 'd3';
+import type { NodeMetrics } from '@/lib/graph-analytics';
+import type { EdgeType, GraphData } from '@/lib/graph-data';
+import { createForceSimulation } from '@/lib/graph-layout';
+import type { RelationOrigin } from '@/lib/relations';
+
+/* ── Types ────────────────────────────────────────────────────────── */
+
+export interface SimNode extends d3.SimulationNodeDatum {
+  id: string;
+  title: string;
+  connections: number;
+  metrics?: NodeMetrics;
+}
+
+export interface SimEdge extends d3.SimulationLinkDatum<SimNode> {
+  type: EdgeType;
+  origin: RelationOrigin;
+}
+
+/**
+ * A force simulation whose node positions are written into the SimNodes
+ * it was created with, whether it runs on the main thread or in a worker.
+ */
+export interface GraphSimulation {
+  /** Called after node positions change. */
+  onTick(callback: () => void): void;
+  /** Called whenever the simulation cools down; right away when it doesn't run. */
+  onEnd(callback: () => void): void;
+  /** Fix a node at (x, y) while dragging, or release it with null. */
+  pin(node: SimNode, x: number | null, y: number | null): void;
+  /** Restart the simulation, optionally reheating it to `alpha`. */
+  restart(alpha?: number): void;
+  setAlphaTarget(alphaTarget: number): void;
+  stop(): void;
+}
+
+/** Messages from the page to the simulation worker. */
+export type WorkerRequest =
+  | {
+    type: 'init';
+    nodes: { id: string; connections: number; x?: number; y?: number }[];
+    edges: { source: string; target: string }[];
+    alpha: number;
+  }
+  | { type: 'pin'; index: number; x: number | null; y: number | null }
+  | { type: 'restart'; alpha?: number }
+  | { type: 'alphaTarget'; alphaTarget: number }
+  | { type: 'stop' };
+
+/** Messages from the simulation worker: interleaved x, y per node, or that it cooled down. */
+export type WorkerResponse =
+  | { type: 'tick'; positions: Float64Array }
+  | { type: 'end' };
+
+/** Starting alpha when nodes already have precomputed positions: settle, don't rearrange. */
+const WARM_ALPHA = 0.05;
+
+/* ── Data ─────────────────────────────────────────────────────────── */
+
+/**
+ * Copy graph data into simulation nodes and edges, dropping edges whose
+ * endpoints are missing.
+ */
+export function toSimData(data: GraphData): { nodes: SimNode[]; edges: SimEdge[] } {
+  const nodes: SimNode[] = data.nodes.map(n => ({ ...n }));
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+
+  const edges: SimEdge[] = data.edges
+    .filter(e => nodeMap.has(e.source) && nodeMap.has(e.target))
+    .map(e => ({
+      source: nodeMap.get(e.source)!,
+      target: nodeMap.get(e.target)!,
+      type: e.type,
+      origin: e.origin,
+    }));
+
+  return { nodes, edges };
+}
+
+/* ── Simulations ──────────────────────────────────────────────────── */
+
+function initialAlpha(nodes: SimNode[]): number {
+  return nodes.length > 0 && nodes.every(n => n.x !== undefined && n.y !== undefined) ? WARM_ALPHA : 1;
+}
+
+function createMainThreadSimulation(nodes: SimNode[], edges: SimEdge[]): GraphSimulation {
+  const simulation = createForceSimulation(nodes, edges).alpha(initialAlpha(nodes));
+
+  return {
+    onTick(callback) {
+      simulation.on('tick', callback);
+    },
+    onEnd(callback) {
+      simulation.on('end', callback);
+    },
+    pin(node, x, y) {
+      node.fx = x;
+      node.fy = y;
+    },
+    restart(alpha) {
+      if (alpha !== undefined) simulation.alpha(alpha);
+      simulation.restart();
+    },
+    setAlphaTarget(alphaTarget) {
+      simulation.alphaTarget(alphaTarget);
+    },
+    stop() {
+      simulation.stop();
+    },
+  };
+}
+
+function createWorkerSimulation(nodes: SimNode[], edges: SimEdge[]): GraphSimulation {
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  const indexOf = new Map(nodes.map((n, i) => [n, i]));
+  let tickCallback = () => {};
+  let endCallback = () => {};
+
+  const send = (message: WorkerRequest) => worker.postMessage(message);
+
+  worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+    if (event.data.type === 'end') return endCallback();
+
+    const { positions } = event.data;
+    nodes.forEach((node, i) => {
+      node.x = positions[i * 2];
+      node.y = positions[i * 2 + 1];
+    });
+    tickCallback();
+  });
+
+  send({
+    type: 'init',
+    nodes: nodes.map(({ id, connections, x, y }) => ({ id, connections, x, y })),
+    edges: edges.map(e => ({ source: (e.source as SimNode).id, target: (e.target as SimNode).id })),
+    alpha: initialAlpha(nodes),
+  });
+
+  return {
+    onTick(callback) {
+      tickCallback = callback;
+    },
+    onEnd(callback) {
+      endCallback = callback;
+    },
+    pin(node, x, y) {
+      // Move locally too so a dragged node follows the pointer without a round trip
+      node.fx = x;
+      node.fy = y;
+      if (x !== null && y !== null) {
+        node.x = x;
+        node.y = y;
+      }
+      send({ type: 'pin', index: indexOf.get(node)!, x, y });
+    },
+    restart(alpha) {
+      send({ type: 'restart', alpha });
+    },
+    setAlphaTarget(alphaTarget) {
+      send({ type: 'alphaTarget', alphaTarget });
+    },
+    stop() {
+      send({ type: 'stop' });
+      worker.terminate();
+    },
+  };
+}
+
+/**
+ * A stand-in that keeps nodes at their precomputed positions. Dragging moves
+ * a node and leaves it where it is dropped.
+ */
+function createStaticSimulation(nodes: SimNode[]): GraphSimulation {
+  let tickCallback = () => {};
+  nodes.forEach((node) => {
+    node.x ??= 0;
+    node.y ??= 0;
+  });
+
+  return {
+    onTick(callback) {
+      tickCallback = callback;
+      // Draw the initial positions once
+      callback();
+    },
+    onEnd(callback) {
+      callback();
+    },
+    pin(node, x, y) {
+      if (x === null || y === null) return;
+      node.x = x;
+      node.y = y;
+      tickCallback();
+    },
+    restart() {
+      tickCallback();
+    },
+    setAlphaTarget() {},
+    stop() {},
+  };
+}
+
+export interface SimulationOptions {
+  /** Run in a Web Worker, where available. */
+  worker?: boolean;
+  /** Run the force simulation at all; false keeps nodes at their precomputed positions. */
+  simulate?: boolean;
+}
+
+/**
+ * Start the simulation for `nodes` and `edges`. Nodes with precomputed
+ * positions start from them and only settle.
+ */
+export function createSimulation(
+  nodes: SimNode[],
+  edges: SimEdge[],
+  { worker = false, simulate = true }: SimulationOptions = {},
+): GraphSimulation {
+  if (!simulate) return createStaticSimulation(nodes);
+  return worker && typeof Worker !== 'undefined'
+    ? createWorkerSimulation(nodes, edges)
+    : createMainThreadSimulation(nodes, edges);
+}
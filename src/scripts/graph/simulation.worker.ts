@@ -0,0 +1,65 @@
+import type * as d3 from 'd3';
+// Relative: the worker bundle is built without the tsconfig path aliases
+import { createForceSimulation } from '../../lib/graph-layout';
+import type { WorkerRequest, WorkerResponse } from './simulation';
+
+/*
+ * Runs the graph's force simulation off the main thread and posts node
+ * positions back after every tick, and a notice when it cools down.
+ */
+
+interface WorkerNode extends d3.SimulationNodeDatum {
+  id: string;
+  connections: number;
+}
+
+let nodes: WorkerNode[] = [];
+let simulation: d3.Simulation<WorkerNode, d3.SimulationLinkDatum<WorkerNode>> | null = null;
+
+function postPositions() {
+  const positions = new Float64Array(nodes.length * 2);
+  nodes.forEach((node, i) => {
+    positions[i * 2] = node.x ?? 0;
+    positions[i * 2 + 1] = node.y ?? 0;
+  });
+  const message: WorkerResponse = { type: 'tick', positions };
+  self.postMessage(message, { transfer: [positions.buffer] });
+}
+
+self.addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    nodes = message.nodes.map(n => ({ ...n }));
+    simulation = createForceSimulation(nodes, message.edges.map(e => ({ ...e })))
+      .alpha(message.alpha);
+    simulation.on('tick', postPositions);
+    simulation.on('end', () => {
+      const end: WorkerResponse = { type: 'end' };
+      self.postMessage(end);
+    });
+    postPositions();
+    return;
+  }
+
+  if (!simulation) return;
+
+  switch (message.type) {
+    case 'pin': {
+      const node = nodes[message.index];
+      node.fx = message.x;
+      node.fy = message.y;
+      break;
+    }
+    case 'restart':
+      if (message.alpha !== undefined) simulation.alpha(message.alpha);
+      simulation.restart();
+      break;
+    case 'alphaTarget':
+      simulation.alphaTarget(message.alphaTarget);
+      break;
+    case 'stop':
+      simulation.stop();
+      break;
+  }
+});
@@ -1,7 +1,10 @@
 import type { EdgeType } from '@/lib/graph-data';
 
 export interface EdgeStyle {
+  /** Concrete color; re-resolved from `variable` on the client. */
   color: string;
+  /** CSS custom property the color follows. */
+  variable: string;
   width: number;
   dasharray: string;
   directed: boolean;
@@ -12,11 +15,13 @@ export interface EdgeStyle {
  * Visual style for each relation type.
  * Colors reference the site's CSS custom properties at runtime via
  * getComputedStyle, but we keep hex fallbacks for the SVG markers
- * which need concrete values.
+ * which need concrete values. They are resolved again whenever the
+ * theme changes.
  */
 export const EDGE_STYLES: Record<EdgeType, EdgeStyle> = {
   ntpp: {
-    color: '#000055',   // --color-accent
+    color: '#000055',
+    variable: '--color-accent',
     width: 2,
     dasharray: '',
     directed: true,
@@ -24,34 +29,39 @@ export const EDGE_STYLES: Record<EdgeType, EdgeStyle> = {
   },
   tpp: {
     color: '#000055',
+    variable: '--color-accent',
     width: 1.5,
     dasharray: '6 3',
     directed: true,
     label: 'TPP — tangentially part of',
   },
   po: {
-    color: '#885500',   // --color-warning
+    color: '#885500',
+    variable: '--color-warning',
     width: 1.5,
     dasharray: '',
     directed: false,
     label: 'PO — partially overlapped',
   },
   ec: {
-    color: '#666666',   // --color-text-subtle
+    color: '#666666',
+    variable: '--color-text-subtle',
     width: 1,
     dasharray: '',
     directed: false,
     label: 'EC — externally connected',
   },
   eq: {
-    color: '#006600',   // --color-success
+    color: '#006600',
+    variable: '--color-success',
     width: 2.5,
     dasharray: '',
     directed: false,
     label: 'EQ — equal',
   },
   dc: {
-    color: '#cccccc',   // --color-border
+    color: '#cccccc',
+    variable: '--color-border',
     width: 1,
     dasharray: '3 3',
     directed: false,
@@ -59,18 +69,48 @@ export const EDGE_STYLES: Record<EdgeType, EdgeStyle> = {
   },
   next: {
     color: '#000055',
+    variable: '--color-accent',
     width: 1,
     dasharray: '2 4',
     directed: true,
     label: 'Next / Prev — sequential',
   },
   r: {
-    color: '#aaaaaa',
+    color: '#cccccc',
+    variable: '--color-border',
     width: 0.75,
     dasharray: '1 3',
     directed: true,
     label: 'R — reference link',
   },
+  tag: {
+    color: '#551a8b',
+    variable: '--color-link-visited',
+    width: 0.75,
+    dasharray: '4 2',
+    directed: false,
+    label: 'Tag — shares a tag',
+  },
+};
+
+/**
+ * Edges for relations inferred via RCC-8 composition keep their type's color
+ * and width but are drawn dotted and fainter than declared ones.
+ */
+export const INFERRED_EDGE_STYLE = {
+  dasharray: '2 3',
+  opacity: 0.35,
+  label: 'Inferred via composition',
+};
+
+/**
+ * Node and label colors, resolved alongside the edge colors.
+ */
+export const NODE_STYLES = {
+  fill: { color: '#444444', variable: '--color-text-muted' },
+  stroke: { color: '#999999', variable: '--color-graph-stroke' },
+  highlight: { color: '#000055', variable: '--color-accent' },
+  label: { color: '#111111', variable: '--color-text' },
 };
 
 /** Read a CSS custom property value from :root, with fallback. */
@@ -80,15 +120,11 @@ export function cssVar(name: string, fallback: string): string {
 }
 
 /**
- * Resolve runtime CSS variable colors. Call once on the client after DOM ready.
+ * Resolve runtime CSS variable colors. Call on the client after DOM ready
+ * and again after the theme changes.
  */
 export function resolveRuntimeColors(): void {
-  EDGE_STYLES.ntpp.color = cssVar('--color-accent', '#000055');
-  EDGE_STYLES.tpp.color = cssVar('--color-accent', '#000055');
-  EDGE_STYLES.po.color = cssVar('--color-warning', '#885500');
-  EDGE_STYLES.ec.color = cssVar('--color-text-subtle', '#666666');
-  EDGE_STYLES.eq.color = cssVar('--color-success', '#006600');
-  EDGE_STYLES.dc.color = cssVar('--color-border', '#cccccc');
-  EDGE_STYLES.next.color = cssVar('--color-accent', '#000055');
-  EDGE_STYLES.r.color = cssVar('--color-border', '#cccccc');
+  for (const style of [...Object.values(EDGE_STYLES), ...Object.values(NODE_STYLES)]) {
+    style.color = cssVar(style.variable, style.color);
+  }
 }
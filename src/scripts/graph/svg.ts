@@ -0,0 +1,180 @@
+import * as d3 from 'd3';
+import type { EdgeType } from '@/lib/graph-data';
+import type { GraphBackend } from './renderer';
+import type { SimEdge, SimNode } from './simulation';
+import {
+  createGraphView,
+  edgeColor,
+  edgeDasharray,
+  edgeOpacity,
+  nodeFill,
+  nodeStroke,
+  type GraphChange,
+} from './shared';
+import { EDGE_STYLES, NODE_STYLES } from './styles';
+
+function edgeKey(d: SimEdge): string {
+  const src = typeof d.source === 'object' ? (d.source as SimNode).id : d.source;
+  const tgt = typeof d.target === 'object' ? (d.target as SimNode).id : d.target;
+  return `${src}-${tgt}-${d.type}-${d.origin}`;
+}
+
+/**
+ * SVG backend: one element per node and edge. Easy to style and inspect,
+ * but every element is updated on every tick, so it suits small graphs.
+ */
+export const createSvgGraph: GraphBackend = (container, data, config) => createGraphView(container, data, config, (view) => {
+  const { radiusOf } = view;
+
+  /* ── SVG setup ──────────────────────────────────────────────── */
+
+  const svg = d3.select(container)
+    .append('svg')
+    .attr('width', '100%')
+    .attr('height', '100%')
+    .attr('viewBox', `0 0 ${view.width} ${view.height}`);
+
+  // Arrow markers for directed edges
+  const defs = svg.append('defs');
+  for (const [type, style] of Object.entries(EDGE_STYLES)) {
+    if (!style.directed) continue;
+    defs.append('marker')
+      .datum(type as EdgeType)
+      .attr('id', `arrow-${type}`)
+      .attr('viewBox', '0 -4 8 8')
+      .attr('refX', 12)
+      .attr('refY', 0)
+      .attr('markerWidth', 6)
+      .attr('markerHeight', 6)
+      .attr('orient', 'auto')
+      .append('path')
+      .attr('d', 'M0,-4L8,0L0,4');
+  }
+
+  const g = svg.append('g');
+
+  /* ── Edge elements ──────────────────────────────────────────── */
+
+  const edgeGroup = g.append('g').attr('class', 'graph-edges');
+  let edgeSelection = edgeGroup.selectAll<SVGLineElement, SimEdge>('line');
+
+  function joinEdges() {
+    edgeSelection = edgeGroup.selectAll<SVGLineElement, SimEdge>('line')
+      .data(view.visibleEdges, edgeKey)
+      .join('line')
+      .attr('stroke-width', d => EDGE_STYLES[d.type].width)
+      .attr('stroke-dasharray', edgeDasharray)
+      .attr('marker-end', d => EDGE_STYLES[d.type].directed ? `url(#arrow-${d.type})` : null);
+  }
+
+  /* ── Node elements ──────────────────────────────────────────── */
+
+  const nodeGs = g.append('g')
+    .attr('class', 'graph-nodes')
+    .selectAll<SVGGElement, SimNode>('g')
+    .data(view.nodes)
+    .join('g')
+    .attr('class', 'graph-node');
+
+  const circles = nodeGs.append('circle')
+    .attr('r', d => radiusOf(d));
+
+  // Keyboard focus ring, moved to the focused node
+  const focusRing = g.append('circle')
+    .attr('fill', 'none')
+    .attr('stroke-width', 2)
+    .attr('stroke-dasharray', '3 2')
+    .attr('pointer-events', 'none')
+    .attr('display', 'none');
+
+  const labels = nodeGs.append('text')
+    .text(d => d.title)
+    .attr('x', d => radiusOf(d) + 4)
+    .attr('y', 4)
+    .attr('font-size', '11px')
+    .attr('font-family', 'system-ui, sans-serif')
+    .attr('pointer-events', 'none');
+
+  /* ── Drawing ────────────────────────────────────────────────── */
+
+  function placeElements() {
+    edgeSelection
+      .attr('x1', d => (d.source as SimNode).x!)
+      .attr('y1', d => (d.source as SimNode).y!)
+      .attr('x2', d => (d.target as SimNode).x!)
+      .attr('y2', d => (d.target as SimNode).y!);
+
+    nodeGs.attr('transform', d => `translate(${d.x},${d.y})`);
+    placeFocusRing();
+  }
+
+  function placeFocusRing() {
+    const node = view.keyboardNode;
+    if (!node || node.x === undefined) return;
+    focusRing
+      .attr('cx', node.x)
+      .attr('cy', node.y!)
+      .attr('r', radiusOf(node) + 4);
+  }
+
+  // SVG attributes hold concrete colors, so styling is reapplied on theme change too
+  function paint() {
+    const { highlightNode, emphasised, emphasisedIds } = view;
+
+    defs.selectAll<SVGMarkerElement, EdgeType>('marker')
+      .select('path')
+      .attr('fill', d => EDGE_STYLES[d].color);
+    edgeSelection
+      .attr('stroke', edgeColor)
+      .attr('opacity', e => !emphasised
+        ? edgeOpacity(e)
+        : (e.source as SimNode).id === emphasised.id || (e.target as SimNode).id === emphasised.id ? 0.8 : 0.05);
+
+    circles
+      .attr('fill', d => nodeFill(d, highlightNode, view.colorOf(d)))
+      .attr('stroke', d => nodeStroke(d, highlightNode))
+      .attr('stroke-width', d => d.id === highlightNode ? 2.5 : 1);
+    nodeGs.attr('opacity', n => !emphasisedIds || emphasisedIds.has(n.id) ? 1 : 0.15);
+    labels.attr('fill', NODE_STYLES.label.color);
+
+    focusRing
+      .attr('stroke', NODE_STYLES.highlight.color)
+      .attr('display', view.keyboardNode ? null : 'none');
+  }
+
+  joinEdges();
+  paint();
+
+  return {
+    element: svg,
+    nodeAt(event) {
+      const node = (event.target as Element).closest('.graph-node');
+      return node ? d3.select<Element, SimNode>(node).datum() : undefined;
+    },
+    draw(change: GraphChange) {
+      switch (change) {
+        case 'transform':
+          g.attr('transform', view.transform.toString());
+          break;
+        case 'edges':
+          joinEdges();
+          paint();
+          placeElements();
+          break;
+        case 'positions':
+          placeElements();
+          break;
+        case 'style':
+          paint();
+          placeFocusRing();
+          break;
+      }
+    },
+    resize() {
+      svg.attr('viewBox', `0 0 ${view.width} ${view.height}`);
+    },
+    destroy() {
+      svg.remove();
+    },
+  };
+});
@@ -1,25 +1,74 @@
 /**
- * Popup link previews - shows page title and description on hover
+ * Popup link previews - shows page title, description, excerpt and metadata on hover.
+ * External links show their domain plus the title/description captured at build time,
+ * and on narrow viewports footnote references show their note.
+ *
+ * In full mode (`data-popup-mode="full"` on #popup-container) popups also load
+ * the rendered page body, or only the linked section when the href carries a
+ * #fragment. Links inside a popup open nested popups; each popup can be pinned
+ * (stays open, fixed to the viewport) and dragged by its header.
  */
 
+interface PopupRelations {
+  partOf: string[];
+  parts: number;
+  references: number;
+  backlinks: number;
+}
+
 interface PopupData {
   title: string;
   description?: string;
   excerpt?: string;
   status?: string;
   tags?: string[];
+  created?: string;
+  modified?: string;
+  relations?: PopupRelations;
 }
 
 type PopupIndex = Record<string, PopupData>;
 
+interface ExternalData {
+  domain: string;
+  title?: string;
+  description?: string;
+}
+
+type ExternalIndex = Record<string, ExternalData>;
+
+type PopupMode = 'summary' | 'full';
+
+/** Sets the icon and which parts of a popup are shown. */
+type PopupKind = 'page' | 'section' | 'footnote' | 'external';
+
+interface PopupFrame {
+  element: HTMLElement;
+  /** Link that opened this popup. */
+  link: HTMLAnchorElement;
+  /** Popup containing `link`, or null for links in the page itself. */
+  parent: PopupFrame | null;
+  pinned: boolean;
+  hovered: boolean;
+  linkHovered: boolean;
+}
+
+const OPEN_DELAY = 150; // ms before a hovered link opens its popup
+const HIDE_DELAY = 200; // ms before unhovered popups close
+const VIEWPORT_MARGIN = 20; // px
+const FOOTNOTE_BREAKPOINT = 1024; // px, below which footnotes.ts moves sidenotes to the footer
+
 let popupIndex: PopupIndex | null = null;
-let popupElement: HTMLElement | null = null;
-let currentTarget: HTMLElement | null = null;
+let externalIndex: ExternalIndex | null = null;
+const pageCache = new Map<string, Promise<Document | null>>();
+const frames: PopupFrame[] = [];
+let openTimeout: ReturnType<typeof setTimeout> | null = null;
 let hideTimeout: ReturnType<typeof setTimeout> | null = null;
+let topZ = 1000;
 
 async function loadPopupIndex(): Promise<PopupIndex> {
   if (popupIndex) return popupIndex;
-  
+
   try {
     const response = await fetch('/popup-index.json');
     popupIndex = await response.json();
@@ -30,55 +79,183 @@ async function loadPopupIndex(): Promise<PopupIndex> {
   }
 }
 
-function createPopupElement(): HTMLElement {
-  if (popupElement) return popupElement;
-  
-  popupElement = document.createElement('div');
-  popupElement.className = 'link-popup';
-  popupElement.innerHTML = `
-    <div class="link-popup-content">
+async function loadExternalIndex(): Promise<ExternalIndex> {
+  if (externalIndex) return externalIndex;
+
+  try {
+    const response = await fetch('/external-index.json');
+    externalIndex = await response.json();
+    return externalIndex!;
+  } catch {
+    console.warn('Failed to load external link index');
+    return {};
+  }
+}
+
+function getPopupMode(): PopupMode {
+  const container = document.getElementById('popup-container');
+  return container?.dataset.popupMode === 'full' ? 'full' : 'summary';
+}
+
+/* ── Page content ─────────────────────────────────────────────────── */
+
+function loadPage(path: string): Promise<Document | null> {
+  let page = pageCache.get(path);
+  if (!page) {
+    page = fetch(path)
+      .then((response) => (response.ok ? response.text() : Promise.reject(response.status)))
+      .then((html) => new DOMParser().parseFromString(html, 'text/html'))
+      .catch(() => {
+        console.warn(`Failed to load ${path} for popup`);
+        return null;
+      });
+    pageCache.set(path, page);
+  }
+  return page;
+}
+
+/**
+ * Elements making up the section an anchor points at: a heading and everything
+ * after it up to the next heading of the same or higher level, or the element itself.
+ */
+function sectionOf(target: Element): Element[] {
+  const level = /^H([1-6])$/.exec(target.tagName)?.[1];
+  if (!level) return [target];
+
+  const nodes: Element[] = [target];
+  let next = target.nextElementSibling;
+  while (next) {
+    const nextLevel = /^H([1-6])$/.exec(next.tagName)?.[1];
+    if (nextLevel && nextLevel <= level) break;
+    nodes.push(next);
+    next = next.nextElementSibling;
+  }
+  return nodes;
+}
+
+/**
+ * Clone a page's body (or the section at `hash`) for display inside a popup.
+ * Drops sidenotes, heading link icons and ids, and makes hrefs absolute.
+ */
+function extractContent(doc: Document, path: string, hash: string): DocumentFragment | null {
+  const prose = doc.querySelector('main .prose');
+  if (!prose) return null;
+
+  let nodes = Array.from(prose.children);
+  if (hash) {
+    const target = doc.getElementById(hash);
+    if (target && prose.contains(target)) {
+      // Walk up to the direct child of .prose so siblings form the section
+      let top: Element = target;
+      while (top.parentElement && top.parentElement !== prose) top = top.parentElement;
+      nodes = top === target ? sectionOf(target) : [top];
+    }
+  }
+
+  const fragment = document.createDocumentFragment();
+  for (const node of nodes) fragment.appendChild(node.cloneNode(true));
+
+  fragment.querySelectorAll('.heading-link-icon, .sidenote, .footnote-ref, script, style').forEach((el) => el.remove());
+  fragment.querySelectorAll('[id]').forEach((el) => el.removeAttribute('id'));
+  fragment.querySelectorAll<HTMLAnchorElement>('a[href]').forEach((a) => {
+    const url = new URL(a.getAttribute('href')!, new URL(path, window.location.origin));
+    if (url.origin === window.location.origin) {
+      a.setAttribute('href', `${url.pathname}${url.search}${url.hash}`);
+    }
+  });
+
+  return fragment;
+}
+
+function sectionTitle(doc: Document, hash: string): string | null {
+  const target = hash ? doc.getElementById(hash) : null;
+  if (!target || !/^H[1-6]$/.test(target.tagName)) return null;
+  return target.textContent?.trim() || null;
+}
+
+/* ── Popup elements ───────────────────────────────────────────────── */
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+function formatDates(data: PopupData): string {
+  if (!data.created) return '';
+  const created = formatDate(data.created);
+  return data.modified ? `${created} · updated ${formatDate(data.modified)}` : created;
+}
+
+function formatRelations(rel?: PopupRelations): string {
+  if (!rel) return '';
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  const parts: string[] = [];
+  if (rel.partOf.length > 0) parts.push(`in ${rel.partOf.join(', ')}`);
+  if (rel.parts > 0) parts.push(plural(rel.parts, 'subpage'));
+  if (rel.backlinks > 0) parts.push(plural(rel.backlinks, 'backlink'));
+  return parts.join(' · ');
+}
+
+function createPopupElement(mode: PopupMode, kind: PopupKind): HTMLElement {
+  const popup = document.createElement('div');
+  popup.className = 'link-popup';
+  popup.dataset.mode = mode;
+  popup.dataset.kind = kind;
+  popup.innerHTML = `
+    <div class="link-popup-header">
       <h4 class="link-popup-title"></h4>
+      <div class="link-popup-actions">
+        <button type="button" class="link-popup-action" data-popup-pin aria-label="Pin popup" aria-pressed="false">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 17v5"/><path d="M9 3h6l-1 7 4 4H6l4-4z"/></svg>
+        </button>
+        <button type="button" class="link-popup-action" data-popup-close aria-label="Close popup">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M18 6 6 18"/><path d="m6 6 12 12"/></svg>
+        </button>
+      </div>
+    </div>
+    <div class="link-popup-content">
       <p class="link-popup-description"></p>
+      <p class="link-popup-excerpt"></p>
       <div class="link-popup-meta">
         <span class="link-popup-status"></span>
         <span class="link-popup-tags"></span>
       </div>
+      <div class="link-popup-footer">
+        <span class="link-popup-dates"></span>
+        <span class="link-popup-relations"></span>
+        <span class="link-popup-domain"></span>
+      </div>
+      <div class="link-popup-body"></div>
     </div>
   `;
-  document.body.appendChild(popupElement);
-  
-  // Keep popup visible when hovering over it
-  popupElement.addEventListener('mouseenter', () => {
-    if (hideTimeout) {
-      clearTimeout(hideTimeout);
-      hideTimeout = null;
-    }
-  });
-  
-  popupElement.addEventListener('mouseleave', () => {
-    hidePopup();
-  });
-  
-  return popupElement;
+  return popup;
 }
 
-function showPopup(target: HTMLElement, data: PopupData) {
-  const popup = createPopupElement();
-  
-  // Fill content
+function fillSummary(popup: HTMLElement, data: PopupData, full: boolean) {
   const title = popup.querySelector('.link-popup-title') as HTMLElement;
   const description = popup.querySelector('.link-popup-description') as HTMLElement;
+  const excerpt = popup.querySelector('.link-popup-excerpt') as HTMLElement;
   const status = popup.querySelector('.link-popup-status') as HTMLElement;
   const tags = popup.querySelector('.link-popup-tags') as HTMLElement;
-  
+  const footer = popup.querySelector('.link-popup-footer') as HTMLElement;
+  const dates = popup.querySelector('.link-popup-dates') as HTMLElement;
+  const relations = popup.querySelector('.link-popup-relations') as HTMLElement;
+
   title.textContent = data.title;
   description.textContent = data.description || '';
-  
+  description.style.display = data.description ? '' : 'none';
+  // The body replaces the excerpt in full mode
+  excerpt.textContent = data.excerpt || '';
+  excerpt.style.display = data.excerpt && !full ? '' : 'none';
+
   // Only show meta section if there's status or tags
   const meta = popup.querySelector('.link-popup-meta') as HTMLElement;
   const hasStatus = !!data.status;
   const hasTags = data.tags && data.tags.length > 0;
-  
+
   if (hasStatus || hasTags) {
     meta.style.display = '';
     status.textContent = hasStatus ? data.status!.replace('-', ' ') : '';
@@ -89,135 +266,435 @@ function showPopup(target: HTMLElement, data: PopupData) {
   } else {
     meta.style.display = 'none';
   }
-  
-  // Position popup
-  const rect = target.getBoundingClientRect();
+
+  dates.textContent = formatDates(data);
+  relations.textContent = formatRelations(data.relations);
+  footer.style.display = dates.textContent || relations.textContent ? '' : 'none';
+}
+
+async function fillBody(popup: HTMLElement, path: string, hash: string, sameDocument: boolean) {
+  const body = popup.querySelector('.link-popup-body') as HTMLElement;
+  body.innerHTML = '<p class="link-popup-loading">Loading…</p>';
+
+  const doc = sameDocument ? document : await loadPage(path);
+  const content = doc && extractContent(doc, path, hash);
+  if (!popup.isConnected) return;
+
+  body.innerHTML = '';
+  if (content && content.childNodes.length > 0) {
+    body.appendChild(content);
+  } else {
+    body.style.display = 'none';
+  }
+
+  const section = doc && sectionTitle(doc, hash);
+  if (section) {
+    const title = popup.querySelector('.link-popup-title') as HTMLElement;
+    title.textContent = title.textContent ? `${title.textContent} § ${section}` : section;
+  }
+}
+
+function positionPopup(popup: HTMLElement, link: HTMLElement) {
+  const rect = link.getBoundingClientRect();
   const scrollY = window.scrollY;
   const scrollX = window.scrollX;
-  
+
   // Default: below and to the right
   let top = rect.bottom + scrollY + 8;
   let left = rect.left + scrollX;
-  
+
   // Show popup to calculate dimensions
   popup.style.visibility = 'hidden';
-  popup.style.display = 'block';
+  popup.classList.add('visible');
   popup.style.top = `${top}px`;
   popup.style.left = `${left}px`;
-  
+
   const popupRect = popup.getBoundingClientRect();
-  
+
   // Adjust if off-screen
-  if (left + popupRect.width > window.innerWidth - 20) {
-    left = window.innerWidth - popupRect.width - 20 + scrollX;
+  if (left + popupRect.width > window.innerWidth - VIEWPORT_MARGIN) {
+    left = window.innerWidth - popupRect.width - VIEWPORT_MARGIN + scrollX;
   }
-  
-  if (top + popupRect.height > window.innerHeight + scrollY - 20) {
-    // Show above instead
-    top = rect.top + scrollY - popupRect.height - 8;
+
+  if (top + popupRect.height > window.innerHeight + scrollY - VIEWPORT_MARGIN) {
+    // Show above instead, unless that runs off the top too
+    const above = rect.top + scrollY - popupRect.height - 8;
+    if (above >= scrollY) top = above;
   }
-  
+
   popup.style.top = `${top}px`;
-  popup.style.left = `${Math.max(20, left)}px`;
+  popup.style.left = `${Math.max(VIEWPORT_MARGIN, left)}px`;
   popup.style.visibility = 'visible';
-  popup.classList.add('visible');
-  
-  currentTarget = target;
 }
 
-function hidePopup() {
-  if (hideTimeout) {
-    clearTimeout(hideTimeout);
+/* ── Frame stack ──────────────────────────────────────────────────── */
+
+function bringToFront(frame: PopupFrame) {
+  frame.element.style.zIndex = String(++topZ);
+}
+
+function closeFrame(frame: PopupFrame) {
+  // Close descendants first
+  for (const child of frames.filter((f) => f.parent === frame)) closeFrame(child);
+
+  const i = frames.indexOf(frame);
+  if (i !== -1) frames.splice(i, 1);
+  frame.element.remove();
+}
+
+function closeAll() {
+  for (const frame of [...frames]) closeFrame(frame);
+}
+
+function isAlive(frame: PopupFrame): boolean {
+  return frame.pinned || frame.hovered || frame.linkHovered ||
+    frames.some((f) => f.parent === frame && isAlive(f));
+}
+
+/** Close every popup that is neither pinned nor (transitively) hovered. */
+function collapse() {
+  for (const frame of [...frames].reverse()) {
+    if (frames.includes(frame) && !isAlive(frame)) closeFrame(frame);
   }
-  
+}
+
+function scheduleCollapse() {
+  if (hideTimeout) clearTimeout(hideTimeout);
   hideTimeout = setTimeout(() => {
-    if (popupElement) {
-      popupElement.classList.remove('visible');
-      popupElement.style.display = 'none';
-    }
-    currentTarget = null;
     hideTimeout = null;
-  }, 100);
+    collapse();
+  }, HIDE_DELAY);
+}
+
+function cancelCollapse() {
+  if (hideTimeout) {
+    clearTimeout(hideTimeout);
+    hideTimeout = null;
+  }
 }
 
-function getInternalPath(href: string): string | null {
+function setPinned(frame: PopupFrame, pinned: boolean) {
+  if (frame.pinned === pinned) return;
+  frame.pinned = pinned;
+
+  const popup = frame.element;
+  const rect = popup.getBoundingClientRect();
+  popup.classList.toggle('pinned', pinned);
+  popup.querySelector('[data-popup-pin]')?.setAttribute('aria-pressed', String(pinned));
+
+  // Pinned popups stay put in the viewport while the page scrolls
+  popup.style.position = pinned ? 'fixed' : '';
+  popup.style.top = `${rect.top + (pinned ? 0 : window.scrollY)}px`;
+  popup.style.left = `${rect.left + (pinned ? 0 : window.scrollX)}px`;
+
+  if (!pinned) scheduleCollapse();
+}
+
+function attachDrag(frame: PopupFrame) {
+  const header = frame.element.querySelector('.link-popup-header') as HTMLElement;
+
+  header.addEventListener('pointerdown', (event) => {
+    if (event.button !== 0 || (event.target as Element).closest('button')) return;
+    event.preventDefault();
+
+    // Dragging a popup pins it
+    setPinned(frame, true);
+    bringToFront(frame);
+
+    const popup = frame.element;
+    const offsetX = event.clientX - popup.offsetLeft;
+    const offsetY = event.clientY - popup.offsetTop;
+    header.setPointerCapture(event.pointerId);
+
+    const onMove = (e: PointerEvent) => {
+      popup.style.left = `${e.clientX - offsetX}px`;
+      popup.style.top = `${e.clientY - offsetY}px`;
+    };
+    const onUp = () => {
+      header.removeEventListener('pointermove', onMove);
+      header.removeEventListener('pointerup', onUp);
+      header.removeEventListener('pointercancel', onUp);
+    };
+
+    header.addEventListener('pointermove', onMove);
+    header.addEventListener('pointerup', onUp);
+    header.addEventListener('pointercancel', onUp);
+  });
+}
+
+function createFrame(link: HTMLAnchorElement, parent: PopupFrame | null, mode: PopupMode, kind: PopupKind): PopupFrame {
+  const element = createPopupElement(mode, kind);
+  const frame: PopupFrame = { element, link, parent, pinned: false, hovered: false, linkHovered: true };
+
+  element.addEventListener('mouseenter', () => {
+    frame.hovered = true;
+    cancelCollapse();
+  });
+  element.addEventListener('mouseleave', () => {
+    frame.hovered = false;
+    scheduleCollapse();
+  });
+  element.addEventListener('pointerdown', () => bringToFront(frame));
+
+  // Links inside popups open nested popups
+  element.addEventListener('mouseover', handleLinkHover as unknown as EventListener);
+  element.addEventListener('mouseout', handleLinkLeave as unknown as EventListener);
+
+  element.querySelector('[data-popup-pin]')!.addEventListener('click', () => setPinned(frame, !frame.pinned));
+  element.querySelector('[data-popup-close]')!.addEventListener('click', () => closeFrame(frame));
+  attachDrag(frame);
+
+  document.body.appendChild(element);
+  bringToFront(frame);
+  frames.push(frame);
+  return frame;
+}
+
+/* ── Link handling ────────────────────────────────────────────────── */
+
+/** What a hovered link previews. */
+type PopupTarget =
+  | { kind: 'page'; path: string; hash: string }
+  | { kind: 'footnote'; id: string }
+  | { kind: 'external'; url: string };
+
+function currentPath(): string {
+  return window.location.pathname.replace(/\/$/, '') || '/';
+}
+
+function isNarrow(): boolean {
+  return window.innerWidth <= FOOTNOTE_BREAKPOINT;
+}
+
+function resolveTarget(link: HTMLAnchorElement): PopupTarget | null {
+  // Heading anchors have their own behaviour
+  if (link.closest('.heading-link-icon')) return null;
+
+  const href = link.getAttribute('href');
+  if (!href) return null;
+
+  // Footnote references preview their note where sidenotes aren't shown
+  if (link.classList.contains('footnote-number')) {
+    const id = link.closest('.footnote-ref')?.id.replace(/^fnref-/, '');
+    return id && isNarrow() ? { kind: 'footnote', id } : null;
+  }
+
   try {
-    const url = new URL(href, window.location.origin);
-    
-    // Only handle internal links
-    if (url.origin !== window.location.origin) return null;
-    
+    const url = new URL(href, window.location.href);
+
+    if (url.origin !== window.location.origin) {
+      return /^https?:$/.test(url.protocol) ? { kind: 'external', url: url.href } : null;
+    }
+
     // Normalize path
     let path = url.pathname;
     if (path.endsWith('/')) path = path.slice(0, -1);
     if (path === '') path = '/';
-    
-    return path;
+
+    return { kind: 'page', path, hash: decodeURIComponent(url.hash.slice(1)) };
   } catch {
     return null;
   }
 }
 
-async function handleLinkHover(event: MouseEvent) {
+function frameFor(link: HTMLAnchorElement): PopupFrame | undefined {
+  return frames.find((f) => f.link === link);
+}
+
+function frameContaining(node: Node): PopupFrame | null {
+  return frames.find((f) => f.element.contains(node)) ?? null;
+}
+
+/** Hide every summary row, leaving only the title and body. */
+function hideSummary(popup: HTMLElement) {
+  popup
+    .querySelectorAll<HTMLElement>('.link-popup-content > :not(.link-popup-body)')
+    .forEach((el) => { el.style.display = 'none'; });
+}
+
+/**
+ * Resolve the data a popup needs before it is shown.
+ * Returns a function that fills a new popup, or null if there is nothing to preview.
+ */
+async function preparePopup(target: PopupTarget, mode: PopupMode): Promise<((frame: PopupFrame) => Promise<void> | void) | null> {
+  switch (target.kind) {
+    case 'page': {
+      const { path, hash } = target;
+      const sameDocument = path === currentPath();
+
+      // Same-page links only preview a section, and only in full mode
+      if (sameDocument && (!hash || mode !== 'full')) return null;
+
+      const index = await loadPopupIndex();
+      const data = sameDocument ? undefined : index[path];
+      if (!sameDocument && !data) return null;
+
+      return async (frame) => {
+        if (data) fillSummary(frame.element, data, mode === 'full');
+        else hideSummary(frame.element);
+
+        positionPopup(frame.element, frame.link);
+        if (mode !== 'full') return;
+
+        await fillBody(frame.element, path, hash, sameDocument);
+        // Content size changed — keep the popup on screen unless the user moved it
+        if (frame.element.isConnected && !frame.pinned) positionPopup(frame.element, frame.link);
+      };
+    }
+
+    case 'footnote': {
+      const notes = Array.from(document.querySelectorAll<HTMLElement>('.sidenote[data-footnote-id]'));
+      const note = notes.find((n) => n.dataset.footnoteId === target.id);
+      if (!note) return null;
+
+      return (frame) => {
+        const popup = frame.element;
+        (popup.querySelector('.link-popup-title') as HTMLElement).textContent = `Footnote ${notes.indexOf(note) + 1}`;
+        hideSummary(popup);
+
+        const body = popup.querySelector('.link-popup-body') as HTMLElement;
+        Array.from(note.childNodes).forEach((child) => body.appendChild(child.cloneNode(true)));
+        body.querySelectorAll('.footnote-number').forEach((el) => el.remove());
+
+        positionPopup(popup, frame.link);
+      };
+    }
+
+    case 'external': {
+      const data = (await loadExternalIndex())[target.url];
+      const domain = data?.domain ?? new URL(target.url).hostname.replace(/^www\./, '');
+
+      return (frame) => {
+        const popup = frame.element;
+        fillSummary(popup, { title: data?.title || domain, description: data?.description }, false);
+        (popup.querySelector('.link-popup-domain') as HTMLElement).textContent = domain;
+        (popup.querySelector('.link-popup-footer') as HTMLElement).style.display = '';
+
+        positionPopup(popup, frame.link);
+      };
+    }
+  }
+}
+
+async function openPopup(link: HTMLAnchorElement, target: PopupTarget) {
+  const mode = getPopupMode();
+  const fill = await preparePopup(target, mode);
+  if (!fill) return;
+
+  // The link may have been left (or its popup closed) while loading
+  const parent = frameContaining(link);
+  if (!link.isConnected || frameFor(link) || (parent === null && link.closest('.link-popup'))) return;
+
+  // One unpinned popup per parent: replace any open sibling
+  for (const sibling of frames.filter((f) => f.parent === parent && !f.pinned)) {
+    closeFrame(sibling);
+  }
+
+  const kind = target.kind === 'page' && target.hash ? 'section' : target.kind;
+  await fill(createFrame(link, parent, mode, kind));
+}
+
+function handleLinkHover(event: MouseEvent) {
   const target = event.target;
-  
+
   // Ensure target is an Element
   if (!(target instanceof Element)) return;
-  
+
   const link = target.closest('a');
   if (!link) return;
-  
-  // Skip if we're already showing popup for this link
-  if (link === currentTarget) return;
-  
-  const href = link.getAttribute('href');
-  if (!href) return;
-  
-  const path = getInternalPath(href);
-  if (!path) return;
-  
-  // Don't show popup for current page
-  const currentPath = window.location.pathname.replace(/\/$/, '') || '/';
-  if (path === currentPath) return;
-  
+
+  const popupTarget = resolveTarget(link);
+  if (!popupTarget) return;
+
   // Cancel any pending hide
-  if (hideTimeout) {
-    clearTimeout(hideTimeout);
-    hideTimeout = null;
-  }
-  
-  const index = await loadPopupIndex();
-  const data = index[path];
-  
-  if (data) {
-    showPopup(link, data);
+  cancelCollapse();
+
+  const existing = frameFor(link);
+  if (existing) {
+    existing.linkHovered = true;
+    return;
   }
+
+  if (openTimeout) clearTimeout(openTimeout);
+  openTimeout = setTimeout(() => {
+    openTimeout = null;
+    openPopup(link, popupTarget);
+  }, OPEN_DELAY);
 }
 
 function handleLinkLeave(event: MouseEvent) {
   const target = event.target;
-  
+
   // Ensure target is an Element
   if (!(target instanceof Element)) return;
-  
+
   const link = target.closest('a');
   if (!link) return;
-  
-  // Check if we're moving to the popup
-  const relatedTarget = event.relatedTarget as HTMLElement | null;
-  if (relatedTarget?.closest?.('.link-popup')) return;
-  
-  hidePopup();
+
+  // Still within the same link (moving between its children)
+  const relatedTarget = event.relatedTarget as Node | null;
+  if (relatedTarget && link.contains(relatedTarget)) return;
+
+  if (openTimeout) {
+    clearTimeout(openTimeout);
+    openTimeout = null;
+  }
+
+  const frame = frameFor(link);
+  if (frame) frame.linkHovered = false;
+
+  scheduleCollapse();
+}
+
+/** On narrow viewports a footnote tap opens its note pinned instead of jumping to the footer. */
+function handleFootnoteClick(event: MouseEvent) {
+  const target = event.target;
+  if (!(target instanceof Element)) return;
+
+  const link = target.closest<HTMLAnchorElement>('.footnote-ref .footnote-number');
+  if (!link) return;
+
+  const popupTarget = resolveTarget(link);
+  if (!popupTarget) return;
+
+  event.preventDefault();
+  const existing = frameFor(link);
+  if (existing) {
+    setPinned(existing, true);
+    return;
+  }
+
+  if (openTimeout) {
+    clearTimeout(openTimeout);
+    openTimeout = null;
+  }
+  openPopup(link, popupTarget).then(() => {
+    const frame = frameFor(link);
+    if (frame) setPinned(frame, true);
+  });
+}
+
+function handleKeydown(event: KeyboardEvent) {
+  if (event.key !== 'Escape' || frames.length === 0) return;
+
+  // Close the most recently opened popup
+  closeFrame(frames[frames.length - 1]);
 }
 
 export function initPopups() {
+  closeAll();
+
   // Use event delegation on article (includes header, body, footer)
   // mouseover/mouseout bubble properly for event delegation (unlike mouseenter/mouseleave)
-  const article = document.querySelector('.article');
+  const article = document.querySelector('main article');
   if (article) {
     article.addEventListener('mouseover', handleLinkHover as unknown as EventListener);
     article.addEventListener('mouseout', handleLinkLeave as unknown as EventListener);
+    article.addEventListener('click', handleFootnoteClick as unknown as EventListener);
   }
+
+  document.removeEventListener('keydown', handleKeydown);
+  document.addEventListener('keydown', handleKeydown);
 }
 
 // Auto-init